@@ -0,0 +1,4 @@
+-- Drop routing decision columns
+
+ALTER TABLE routing_attempts DROP COLUMN IF EXISTS routing_score;
+ALTER TABLE routing_attempts DROP COLUMN IF EXISTS routing_reason;
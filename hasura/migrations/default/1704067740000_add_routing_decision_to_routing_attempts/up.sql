@@ -0,0 +1,4 @@
+-- Persist the routing decision behind each attempt
+
+ALTER TABLE routing_attempts ADD COLUMN routing_reason TEXT;
+ALTER TABLE routing_attempts ADD COLUMN routing_score DECIMAL(10,2);
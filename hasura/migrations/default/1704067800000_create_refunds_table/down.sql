@@ -0,0 +1,6 @@
+-- Drop refunds table
+
+DROP FUNCTION IF EXISTS transaction_refunded_amount(transactions);
+DROP TRIGGER IF EXISTS update_refunds_updated_at ON refunds;
+DROP TABLE IF EXISTS refunds;
+DROP TYPE IF EXISTS refund_status;
\ No newline at end of file
@@ -0,0 +1,82 @@
+-- Create refunds table
+
+CREATE TYPE refund_status AS ENUM ('pending', 'success', 'failed');
+
+CREATE TABLE refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    gateway_id UUID NOT NULL REFERENCES payment_gateways(id),
+    gateway_refund_id VARCHAR(255) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    currency currency_code NOT NULL,
+    status refund_status DEFAULT 'pending',
+    reason TEXT,
+    gateway_response JSONB,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(gateway_id, gateway_refund_id)
+);
+
+-- Create indexes
+CREATE INDEX idx_refunds_transaction ON refunds(transaction_id);
+CREATE INDEX idx_refunds_status ON refunds(status);
+
+CREATE TRIGGER update_refunds_updated_at 
+    BEFORE UPDATE ON refunds 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Computed field: amount successfully refunded for a transaction
+CREATE OR REPLACE FUNCTION transaction_refunded_amount(transaction_row transactions)
+RETURNS DECIMAL(10,2) AS $$
+    SELECT COALESCE(SUM(amount), 0)
+    FROM refunds
+    WHERE transaction_id = transaction_row.id
+      AND status = 'success'
+$$ LANGUAGE sql STABLE;
+
+-- Move refunds recorded in transaction metadata into the ledger; entries saved without
+-- a gateway refund id get a per-transaction placeholder so their amounts are kept
+INSERT INTO refunds (transaction_id, gateway_id, gateway_refund_id, amount, currency, status, reason, created_at)
+SELECT 
+    t.id,
+    t.gateway_id,
+    COALESCE(r->>'gateway_refund_id', 'legacy:' || t.id || ':' || e.position),
+    (r->>'amount')::DECIMAL(10,2),
+    t.currency,
+    (r->>'status')::refund_status,
+    r->>'reason',
+    COALESCE((r->>'created_at')::TIMESTAMP WITH TIME ZONE, t.updated_at)
+FROM transactions t
+CROSS JOIN LATERAL jsonb_array_elements(t.metadata->'refunds') WITH ORDINALITY AS e(r, position)
+WHERE t.gateway_id IS NOT NULL
+  AND jsonb_typeof(t.metadata->'refunds') = 'array'
+ON CONFLICT (gateway_id, gateway_refund_id) DO NOTHING;
+
+-- Refund webhooks only kept the refunded total in metadata.refund_amount; record whatever
+-- part of it the entries above do not already cover as one settled refund
+INSERT INTO refunds (transaction_id, gateway_id, gateway_refund_id, amount, currency, status, created_at)
+SELECT
+    t.id,
+    t.gateway_id,
+    'legacy:' || t.id,
+    legacy.amount,
+    t.currency,
+    'success',
+    t.updated_at
+FROM transactions t
+CROSS JOIN LATERAL (
+    SELECT (t.metadata->>'refund_amount')::DECIMAL(10,2) - COALESCE(SUM(r.amount), 0) AS amount
+    FROM refunds r
+    WHERE r.transaction_id = t.id
+      AND r.status = 'success'
+) legacy
+WHERE t.gateway_id IS NOT NULL
+  AND t.metadata ? 'refund_amount'
+  AND legacy.amount > 0
+ON CONFLICT (gateway_id, gateway_refund_id) DO NOTHING;
+
+UPDATE transactions
+SET metadata = metadata - 'refunds' - 'refunded_amount' - 'refund_amount'
+WHERE gateway_id IS NOT NULL
+  AND metadata ?| ARRAY['refunds', 'refund_amount'];
\ No newline at end of file
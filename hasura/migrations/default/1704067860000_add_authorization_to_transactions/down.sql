@@ -0,0 +1,4 @@
+-- Drop captured amount
+-- PostgreSQL cannot drop enum values; 'authorized' and 'voided' remain on transaction_status
+
+ALTER TABLE transactions DROP COLUMN IF EXISTS captured_amount;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Support authorize-then-capture payments
+
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'authorized';
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'voided';
+
+-- Amount actually captured; NULL until a manual capture settles
+ALTER TABLE transactions ADD COLUMN captured_amount DECIMAL(10,2);
\ No newline at end of file
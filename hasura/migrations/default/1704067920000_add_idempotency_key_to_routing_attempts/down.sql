@@ -0,0 +1,4 @@
+-- Drop routing attempt idempotency key
+
+ALTER TABLE routing_attempts DROP CONSTRAINT IF EXISTS routing_attempts_idempotency_key_key;
+ALTER TABLE routing_attempts DROP COLUMN IF EXISTS idempotency_key;
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- One gateway call per idempotency key, so a retried job cannot charge twice
+
+ALTER TABLE routing_attempts ADD COLUMN idempotency_key VARCHAR(255);
+ALTER TABLE routing_attempts ADD CONSTRAINT routing_attempts_idempotency_key_key UNIQUE (idempotency_key);
\ No newline at end of file
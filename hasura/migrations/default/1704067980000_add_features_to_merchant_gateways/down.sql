@@ -0,0 +1,3 @@
+-- Drop merchant-level gateway features
+
+ALTER TABLE merchant_gateways DROP COLUMN IF EXISTS features;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Merchant-level gateway features (e.g. webhook_secret) layered over payment_gateways.features
+
+ALTER TABLE merchant_gateways ADD COLUMN features JSONB DEFAULT '{}';
\ No newline at end of file
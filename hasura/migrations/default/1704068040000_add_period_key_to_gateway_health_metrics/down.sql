@@ -0,0 +1,5 @@
+-- Drop the gateway health window key
+
+DROP INDEX IF EXISTS idx_routing_attempts_created_at;
+DROP INDEX IF EXISTS idx_gateway_health_metrics_period_end;
+ALTER TABLE gateway_health_metrics DROP CONSTRAINT IF EXISTS gateway_health_metrics_gateway_id_period_key;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- One health row per gateway and measurement window, so the aggregation job can upsert reruns
+
+ALTER TABLE gateway_health_metrics ADD CONSTRAINT gateway_health_metrics_gateway_id_period_key
+    UNIQUE (gateway_id, measurement_period_start, measurement_period_end);
+
+CREATE INDEX idx_gateway_health_metrics_period_end ON gateway_health_metrics(measurement_period_end);
+CREATE INDEX idx_routing_attempts_created_at ON routing_attempts(created_at);
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- Drop gateway circuit breakers
+
+DROP TABLE IF EXISTS gateway_circuit_breakers;
+DROP TYPE IF EXISTS circuit_state;
\ No newline at end of file
@@ -0,0 +1,23 @@
+-- Circuit breakers stop routing to a gateway that keeps failing at the network or gateway level
+
+CREATE TYPE circuit_state AS ENUM ('closed', 'open', 'half_open');
+
+-- merchant_id is NULL for the gateway-wide breaker; set for a merchant's own gateway account
+CREATE TABLE gateway_circuit_breakers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    gateway_id UUID NOT NULL REFERENCES payment_gateways(id) ON DELETE CASCADE,
+    merchant_id UUID REFERENCES merchants(id) ON DELETE CASCADE,
+    state circuit_state NOT NULL DEFAULT 'closed',
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    opened_at TIMESTAMP WITH TIME ZONE,
+    last_failure_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT gateway_circuit_breakers_gateway_id_merchant_id_key UNIQUE NULLS NOT DISTINCT (gateway_id, merchant_id)
+);
+
+CREATE INDEX idx_gateway_circuit_breakers_state ON gateway_circuit_breakers(state);
+
+CREATE TRIGGER update_gateway_circuit_breakers_updated_at 
+    BEFORE UPDATE ON gateway_circuit_breakers 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
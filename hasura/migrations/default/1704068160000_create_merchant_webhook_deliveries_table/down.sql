@@ -0,0 +1,5 @@
+-- Drop merchant webhook deliveries
+
+DROP TABLE IF EXISTS merchant_webhook_deliveries;
+DROP TYPE IF EXISTS webhook_delivery_status;
+ALTER TABLE merchants DROP COLUMN IF EXISTS webhook_secret;
\ No newline at end of file
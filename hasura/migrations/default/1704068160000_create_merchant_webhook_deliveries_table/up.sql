@@ -0,0 +1,34 @@
+-- Outbound merchant webhooks: per-merchant signing secrets and a delivery queue with retries
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE merchants ADD COLUMN webhook_secret VARCHAR(255) NOT NULL
+    DEFAULT 'whsec_' || encode(gen_random_bytes(32), 'hex');
+
+CREATE TYPE webhook_delivery_status AS ENUM ('pending', 'delivered', 'dead_letter');
+
+CREATE TABLE merchant_webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status webhook_delivery_status NOT NULL DEFAULT 'pending',
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_response_status INTEGER,
+    last_error TEXT,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes
+CREATE INDEX idx_merchant_webhook_deliveries_due ON merchant_webhook_deliveries(status, next_attempt_at);
+CREATE INDEX idx_merchant_webhook_deliveries_merchant ON merchant_webhook_deliveries(merchant_id);
+CREATE INDEX idx_merchant_webhook_deliveries_transaction ON merchant_webhook_deliveries(transaction_id);
+
+CREATE TRIGGER update_merchant_webhook_deliveries_updated_at 
+    BEFORE UPDATE ON merchant_webhook_deliveries 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
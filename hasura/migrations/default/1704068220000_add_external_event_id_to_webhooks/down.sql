@@ -0,0 +1,5 @@
+-- Drop webhook event ids
+
+ALTER TABLE webhooks DROP COLUMN IF EXISTS processing_started_at;
+ALTER TABLE webhooks DROP CONSTRAINT IF EXISTS webhooks_gateway_id_external_event_id_key;
+ALTER TABLE webhooks DROP COLUMN IF EXISTS external_event_id;
\ No newline at end of file
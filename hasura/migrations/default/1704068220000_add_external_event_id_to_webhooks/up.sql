@@ -0,0 +1,10 @@
+-- Gateway event ids, so redelivered webhooks are recognised and not processed twice
+
+ALTER TABLE webhooks ADD COLUMN external_event_id VARCHAR(255);
+
+-- NULL event ids (gateways that send none) never conflict
+ALTER TABLE webhooks ADD CONSTRAINT webhooks_gateway_id_external_event_id_key
+    UNIQUE (gateway_id, external_event_id);
+
+-- Set when a delivery claims the webhook; a claim older than the handler's lease can be taken over
+ALTER TABLE webhooks ADD COLUMN processing_started_at TIMESTAMP WITH TIME ZONE;
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Drop disputes table
+
+DROP TRIGGER IF EXISTS update_disputes_updated_at ON disputes;
+DROP TABLE IF EXISTS disputes;
+DROP TYPE IF EXISTS dispute_status;
\ No newline at end of file
@@ -0,0 +1,29 @@
+-- Create disputes table
+
+CREATE TYPE dispute_status AS ENUM ('needs_response', 'under_review', 'won', 'lost');
+
+CREATE TABLE disputes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    gateway_id UUID NOT NULL REFERENCES payment_gateways(id),
+    gateway_dispute_id VARCHAR(255) NOT NULL,
+    amount DECIMAL(10,2),
+    currency currency_code NOT NULL,
+    reason TEXT,
+    status dispute_status NOT NULL DEFAULT 'needs_response',
+    gateway_status VARCHAR(100),
+    evidence_due_by TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    gateway_response JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(gateway_id, gateway_dispute_id)
+);
+
+-- Create indexes
+CREATE INDEX idx_disputes_transaction ON disputes(transaction_id);
+CREATE INDEX idx_disputes_status_evidence_due ON disputes(status, evidence_due_by);
+
+CREATE TRIGGER update_disputes_updated_at 
+    BEFORE UPDATE ON disputes 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
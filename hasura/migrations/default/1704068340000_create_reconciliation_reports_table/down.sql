@@ -0,0 +1,6 @@
+-- Drop settlement reconciliation tables
+
+DROP INDEX IF EXISTS idx_transactions_gateway_transaction_id;
+DROP TABLE IF EXISTS reconciliation_discrepancies;
+DROP TABLE IF EXISTS reconciliation_reports;
+DROP TYPE IF EXISTS discrepancy_type;
\ No newline at end of file
@@ -0,0 +1,32 @@
+-- Create settlement reconciliation tables
+
+CREATE TYPE discrepancy_type AS ENUM ('missing', 'amount_mismatch', 'status_mismatch', 'unknown_at_gateway');
+
+-- One row per gateway and reconciled period
+CREATE TABLE reconciliation_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    gateway_id UUID NOT NULL REFERENCES payment_gateways(id),
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    settlement_records INTEGER NOT NULL DEFAULT 0,
+    matched_transactions INTEGER NOT NULL DEFAULT 0,
+    discrepancy_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE reconciliation_discrepancies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    report_id UUID NOT NULL REFERENCES reconciliation_reports(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    gateway_transaction_id VARCHAR(255),
+    discrepancy_type discrepancy_type NOT NULL,
+    expected JSONB, -- What transactions records
+    actual JSONB, -- What the gateway reported
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes
+CREATE INDEX idx_reconciliation_reports_gateway_period ON reconciliation_reports(gateway_id, period_start);
+CREATE INDEX idx_reconciliation_discrepancies_report ON reconciliation_discrepancies(report_id);
+CREATE INDEX idx_reconciliation_discrepancies_transaction ON reconciliation_discrepancies(transaction_id);
+CREATE INDEX idx_transactions_gateway_transaction_id ON transactions(gateway_transaction_id);
\ No newline at end of file
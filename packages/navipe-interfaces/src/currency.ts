@@ -0,0 +1,60 @@
+// Currency metadata and minor-unit conversion
+
+// ISO 4217 minor-unit exponents for currencies that differ from the default of 2
+export const CURRENCY_EXPONENTS: Record<string, number> = {
+  // Zero-decimal currencies
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  // Three-decimal currencies
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  // Four-decimal currencies
+  CLF: 4,
+  UYW: 4
+};
+
+export const DEFAULT_CURRENCY_EXPONENT = 2;
+
+export function getCurrencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[(currency || '').toUpperCase()] ?? DEFAULT_CURRENCY_EXPONENT;
+}
+
+// Major units (e.g. 10.50 USD) to the integer minor units gateways expect (1050)
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * Math.pow(10, getCurrencyExponent(currency)));
+}
+
+// Integer minor units reported by gateways back to major units
+export function fromMinorUnits(amount: number, currency: string): number {
+  return Number(amount) / Math.pow(10, getCurrencyExponent(currency));
+}
+
+// Rounds a major-unit amount to the precision the currency allows
+export function roundToCurrency(amount: number, currency: string): number {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+}
+
+// Decimal string for gateways that take major units (e.g. PayPal "10.50", "1050" for JPY)
+export function formatDecimalAmount(amount: number, currency: string): string {
+  return amount.toFixed(getCurrencyExponent(currency));
+}
\ No newline at end of file
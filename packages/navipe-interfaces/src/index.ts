@@ -1,5 +1,8 @@
 // Payment Gateway Plugin Interfaces
 
+export * from './currency';
+export * from './webhook-signature';
+
 export interface PaymentRequest {
   amount: number;
   currency: string;
@@ -9,6 +12,9 @@ export interface PaymentRequest {
   billing_address?: BillingAddress;
   metadata?: Record<string, any>;
   merchant_reference?: string;
+  idempotency_key?: string; // Retries with the same key must not create a second charge
+  payment_method_token?: string; // Tokenized or saved payment method, e.g. Stripe "pm_..."; charged immediately when set
+  return_url?: string; // Where the customer lands after a redirect step such as 3DS; overrides features.return_url
 }
 
 export interface BillingAddress {
@@ -25,18 +31,42 @@ export interface PaymentResponse {
   success: boolean;
   transaction_id: string;
   gateway_transaction_id?: string;
-  status: 'pending' | 'processing' | 'success' | 'failed';
+  status: 'pending' | 'processing' | 'authorized' | 'success' | 'failed' | 'voided';
   gateway_response?: any;
-  error_message?: string;
+  error_message?: string; // The standard error code of `error`
+  error?: GatewayError; // Set whenever success is false
   redirect_url?: string; // For 3DS or redirect flows
+  next_action?: NextAction; // Client-side step needed before the payment can be confirmed
   processing_time_ms?: number;
 }
 
+export interface NextAction {
+  type: string;
+  redirect_url?: string;
+  data?: Record<string, any>;
+}
+
+export interface ConfirmPaymentRequest {
+  gateway_transaction_id: string;
+  merchant_reference?: string;
+  return_params: Record<string, any>; // Parameters handed back by the gateway's checkout or return URL
+  return_url?: string; // Where the customer lands after a further redirect step; overrides features.return_url
+}
+
+export interface CaptureRequest {
+  gateway_transaction_id: string;
+  amount?: number; // If not provided, capture the full authorized amount
+  currency: string;
+  metadata?: Record<string, any>;
+}
+
 export interface RefundRequest {
   original_transaction_id: string;
   amount?: number; // If not provided, full refund
+  currency: string; // Currency of the original transaction
   reason?: string;
   metadata?: Record<string, any>;
+  idempotency_key?: string; // Retries with the same key must not create a second refund
 }
 
 export interface RefundResponse {
@@ -46,7 +76,18 @@ export interface RefundResponse {
   refunded_amount: number;
   status: 'pending' | 'success' | 'failed';
   gateway_response?: any;
-  error_message?: string;
+  error_message?: string; // The standard error code of `error`
+  error?: GatewayError; // Set whenever success is false
+}
+
+// Why a gateway operation failed, normalized across gateways
+export interface GatewayError {
+  code: StandardErrorCodes;
+  gateway_code?: string; // The gateway's own error code, e.g. Stripe's "card_declined"
+  message: string; // Detailed reason for logs and merchants; not meant for customers
+  decline_code?: string; // Issuer or processor reason for a decline, when reported
+  retryable: boolean; // Whether the payment may succeed on a retry or another gateway
+  customer_facing_message: string; // Safe to show at checkout
 }
 
 export interface WebhookVerificationRequest {
@@ -55,13 +96,57 @@ export interface WebhookVerificationRequest {
   signature?: string;
 }
 
+// A gateway webhook in gateway-neutral terms; the webhook handler acts only on these fields
 export interface WebhookEvent {
-  event_type: string;
-  transaction_id?: string;
-  data: any;
+  event_id?: string; // Gateway's id for the event, stable across redeliveries
+  event_type: WebhookEventTypes | string; // Gateway's own type when it has no standard mapping
+  gateway_event_type: string;
+  gateway_transaction_id?: string; // The payment the event is about (e.g. Stripe PaymentIntent, PayPal capture)
+  gateway_order_id?: string; // Order the payment belongs to, for gateways whose checkout starts with an order
+  refund?: WebhookRefund;
+  dispute?: WebhookDispute;
+  data: any; // The raw gateway payload, kept for logging
   timestamp: string;
 }
 
+export interface WebhookRefund {
+  gateway_refund_id: string;
+  amount: number; // Major units
+  currency: string;
+  status: 'pending' | 'success' | 'failed';
+}
+
+export type DisputeStatus = 'needs_response' | 'under_review' | 'won' | 'lost';
+
+export interface WebhookDispute {
+  gateway_dispute_id: string;
+  status: DisputeStatus;
+  amount?: number; // Major units
+  currency?: string;
+  reason?: string;
+  evidence_due_by?: string; // ISO timestamp; without a response by then the merchant loses
+  gateway_status?: string;
+}
+
+export interface DateRange {
+  from: string; // ISO timestamp, inclusive
+  to: string; // ISO timestamp, exclusive
+}
+
+// One money movement as the gateway recorded it in its settlement or balance data
+export interface SettlementRecord {
+  gateway_reference: string; // The gateway's id for the movement (e.g. Stripe balance transaction)
+  gateway_transaction_id: string; // The payment it belongs to, as stored in transactions.gateway_transaction_id
+  type: 'payment' | 'refund' | 'adjustment';
+  amount: number; // Gross, major units; refunds and other debits are negative
+  fee: number; // Major units, always positive
+  net: number;
+  currency: string;
+  status: 'pending' | 'settled' | 'failed';
+  settlement_id?: string; // Payout or settlement batch, once assigned
+  created_at: string;
+}
+
 export interface GatewayConfig {
   gateway_code: string;
   credentials: Record<string, any>;
@@ -80,9 +165,20 @@ export interface PaymentGateway {
   processPayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse>;
   processRefund(request: RefundRequest, config: GatewayConfig): Promise<RefundResponse>;
   
+  // Authorization operations (authorize at checkout, capture at fulfilment)
+  authorizePayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse>;
+  capturePayment(request: CaptureRequest, config: GatewayConfig): Promise<PaymentResponse>;
+  voidAuthorization(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse>;
+  
+  // Confirmation after the customer completes the gateway's checkout step
+  confirmPayment(request: ConfirmPaymentRequest, config: GatewayConfig): Promise<PaymentResponse>;
+  
   // Status operations
   checkTransactionStatus(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse>;
   
+  // Settlement data for reconciliation
+  listSettlements(range: DateRange, config: GatewayConfig): Promise<SettlementRecord[]>;
+  
   // Webhook operations
   verifyWebhookSignature(request: WebhookVerificationRequest, config: GatewayConfig): Promise<boolean>;
   parseWebhookEvent(request: WebhookVerificationRequest, config: GatewayConfig): Promise<WebhookEvent>;
@@ -112,6 +208,7 @@ export enum StandardErrorCodes {
   INVALID_CVC = 'INVALID_CVC',
   PROCESSING_ERROR = 'PROCESSING_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
+  TIMEOUT = 'TIMEOUT',
   RATE_LIMITED = 'RATE_LIMITED',
   AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
   INVALID_REQUEST = 'INVALID_REQUEST',
@@ -119,6 +216,86 @@ export enum StandardErrorCodes {
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
 
+// Declines tied to the customer's instrument fail the same way on every gateway
+const NON_RETRYABLE_ERROR_CODES: string[] = [
+  StandardErrorCodes.INSUFFICIENT_FUNDS,
+  StandardErrorCodes.CARD_DECLINED,
+  StandardErrorCodes.INVALID_CARD,
+  StandardErrorCodes.EXPIRED_CARD,
+  StandardErrorCodes.INVALID_CVC
+];
+
+const CUSTOMER_FACING_MESSAGES: Partial<Record<StandardErrorCodes, string>> = {
+  [StandardErrorCodes.INSUFFICIENT_FUNDS]: 'Your payment method has insufficient funds. Please use a different payment method.',
+  [StandardErrorCodes.CARD_DECLINED]: 'Your card was declined. Please use a different payment method.',
+  [StandardErrorCodes.INVALID_CARD]: 'Your card details are invalid. Please check them and try again.',
+  [StandardErrorCodes.EXPIRED_CARD]: 'Your card has expired. Please use a different card.',
+  [StandardErrorCodes.INVALID_CVC]: "Your card's security code is incorrect. Please check it and try again.",
+  [StandardErrorCodes.PROCESSING_ERROR]: 'We could not process your payment right now. Please try again.',
+  [StandardErrorCodes.NETWORK_ERROR]: 'We could not process your payment right now. Please try again.',
+  [StandardErrorCodes.TIMEOUT]: 'We could not process your payment right now. Please try again.',
+  [StandardErrorCodes.RATE_LIMITED]: 'We could not process your payment right now. Please try again.',
+  [StandardErrorCodes.GATEWAY_ERROR]: 'We could not process your payment right now. Please try again.'
+};
+
+// Authentication, request and unknown errors are the merchant's to resolve
+const DEFAULT_CUSTOMER_FACING_MESSAGE = 'We could not process your payment. Please contact the merchant if the problem persists.';
+
+export function isRetryableErrorCode(code?: string): boolean {
+  return !NON_RETRYABLE_ERROR_CODES.includes(code || '');
+}
+
+/**
+ * Build a GatewayError from a standard code. Codes that are not StandardErrorCodes
+ * values become UNKNOWN_ERROR, so mapErrorCode results can be passed straight in.
+ */
+export function createGatewayError(
+  code: string,
+  details: { gateway_code?: string; message?: string; decline_code?: string } = {}
+): GatewayError {
+  const standardCode = (Object.values(StandardErrorCodes) as string[]).includes(code)
+    ? code as StandardErrorCodes
+    : StandardErrorCodes.UNKNOWN_ERROR;
+
+  return {
+    code: standardCode,
+    gateway_code: details.gateway_code,
+    message: details.message || standardCode,
+    decline_code: details.decline_code,
+    retryable: isRetryableErrorCode(standardCode),
+    customer_facing_message: CUSTOMER_FACING_MESSAGES[standardCode] || DEFAULT_CUSTOMER_FACING_MESSAGE
+  };
+}
+
+// Error thrown for a failed gateway HTTP call; status is undefined when no response arrived
+export class GatewayHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: StandardErrorCodes,
+    public readonly status?: number,
+    public readonly body?: any
+  ) {
+    super(message);
+    this.name = 'GatewayHttpError';
+  }
+}
+
+export function getHttpErrorCode(status: number): StandardErrorCodes {
+  if (status === 401 || status === 403) return StandardErrorCodes.AUTHENTICATION_ERROR;
+  if (status === 408) return StandardErrorCodes.TIMEOUT;
+  if (status === 429) return StandardErrorCodes.RATE_LIMITED;
+  if (status >= 500) return StandardErrorCodes.GATEWAY_ERROR;
+  if (status >= 400) return StandardErrorCodes.INVALID_REQUEST;
+  return StandardErrorCodes.UNKNOWN_ERROR;
+}
+
+// Per-call overrides for BasePaymentGateway.makeApiRequest
+export interface GatewayRequestOptions {
+  timeout_ms?: number; // Defaults to features.request_timeout_ms, then 10 seconds
+  max_retries?: number; // Defaults to features.max_retries, then 2
+  idempotent?: boolean; // Marks a POST as safe to repeat, e.g. one carrying an idempotency key
+}
+
 // Payment method types
 export enum PaymentMethodTypes {
   CARD = 'card',
@@ -143,15 +320,20 @@ export enum CurrencyCodes {
 export enum GatewayStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
+  AUTHORIZED = 'authorized',
   SUCCESS = 'success',
-  FAILED = 'failed'
+  FAILED = 'failed',
+  VOIDED = 'voided'
 }
 
 // Webhook event types
 export enum WebhookEventTypes {
   PAYMENT_SUCCESS = 'payment.success',
+  PAYMENT_APPROVED = 'payment.approved', // Buyer approved at the gateway; funds not yet captured
   PAYMENT_FAILED = 'payment.failed',
   PAYMENT_PROCESSING = 'payment.processing',
   REFUND_PROCESSED = 'refund.processed',
-  DISPUTE_CREATED = 'dispute.created'
+  DISPUTE_CREATED = 'dispute.created',
+  DISPUTE_UPDATED = 'dispute.updated', // Status, amount or evidence deadline changed
+  DISPUTE_CLOSED = 'dispute.closed' // Decided; status is won or lost
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+// Webhook signature checks shared by the gateway packages
+
+import crypto from 'crypto';
+import type { GatewayConfig } from './index';
+
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export interface HmacVerificationOptions {
+  timestamp?: number; // Signed delivery time in seconds, for gateways that sign one
+  secrets?: string[]; // Defaults to the webhook_secret plus features.previous_webhook_secrets
+  encoding?: 'hex' | 'base64';
+}
+
+/**
+ * Check an HMAC-SHA256 signature in constant time against every active secret: the
+ * webhook_secret plus any features.previous_webhook_secrets still valid during a
+ * rotation, unless explicit secrets are passed. Gateways that sign a delivery timestamp
+ * pass it so stale or replayed webhooks are rejected.
+ */
+export function verifyHmacSignature(
+  signedPayload: string,
+  signatures: string | string[],
+  config: GatewayConfig,
+  options: HmacVerificationOptions = {}
+): boolean {
+  if (options.timestamp !== undefined && !isWebhookTimestampValid(options.timestamp, config)) {
+    return false;
+  }
+
+  const received = (Array.isArray(signatures) ? signatures : [signatures])
+    .filter(Boolean)
+    .map(signature => Buffer.from(String(signature)));
+  const secrets = (options.secrets || getWebhookSecrets(config)).filter(Boolean);
+
+  return secrets.some(secret => {
+    const expected = Buffer.from(
+      crypto.createHmac('sha256', secret).update(signedPayload).digest(options.encoding || 'hex')
+    );
+    return received.some(signature =>
+      signature.length === expected.length && crypto.timingSafeEqual(signature, expected)
+    );
+  });
+}
+
+// Webhooks more than features.webhook_tolerance_seconds (default 5 minutes) from now are replays
+export function isWebhookTimestampValid(timestamp: number, config: GatewayConfig): boolean {
+  const tolerance = config.features?.webhook_tolerance_seconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  return Number.isFinite(timestamp) && Math.abs(Date.now() / 1000 - timestamp) <= tolerance;
+}
+
+function getWebhookSecrets(config: GatewayConfig): string[] {
+  return [config.webhook_secret, ...(config.features?.previous_webhook_secrets || [])];
+}
\ No newline at end of file
@@ -6,12 +6,52 @@ import {
   PaymentResponse, 
   RefundRequest, 
   RefundResponse,
+  CaptureRequest,
+  ConfirmPaymentRequest,
   WebhookVerificationRequest,
   WebhookEvent,
+  DateRange,
+  SettlementRecord,
   GatewayConfig,
-  StandardErrorCodes
+  GatewayError,
+  GatewayHttpError,
+  DisputeStatus,
+  StandardErrorCodes,
+  createGatewayError,
+  formatDecimalAmount,
+  isWebhookTimestampValid
 } from "@navipe/interfaces";
 
+const TRANSACTION_SEARCH_MAX_MS = 31 * 24 * 60 * 60 * 1000;
+const TRANSACTION_SEARCH_PAGE_SIZE = 500;
+
+// HATEOAS link on PayPal resources, e.g. rel "approve" on orders or "up" on refunds
+interface PayPalLink {
+  href: string;
+  rel: string;
+  method?: string;
+}
+
+interface PayPalMoney {
+  currency_code: string;
+  value: string;
+}
+
+// transaction_info of a Transaction Search result
+interface PayPalTransactionInfo {
+  transaction_id: string;
+  paypal_reference_id?: string;
+  transaction_event_code?: string;
+  transaction_initiation_date: string;
+  transaction_amount?: PayPalMoney;
+  fee_amount?: PayPalMoney;
+  transaction_status: string; // S (success), P (pending), D (denied), V (reversed)
+}
+
+interface PayPalTransactionDetail {
+  transaction_info: PayPalTransactionInfo;
+}
+
 export class PayPalGateway extends BasePaymentGateway {
   getGatewayCode(): string {
     return 'paypal';
@@ -26,6 +66,114 @@ export class PayPalGateway extends BasePaymentGateway {
   }
 
   async processPayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    return this.createOrder(request, config, 'CAPTURE');
+  }
+
+  async authorizePayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    // The buyer approves an AUTHORIZE order; capturePayment authorizes and captures it later
+    return this.createOrder(request, config, 'AUTHORIZE');
+  }
+
+  async capturePayment(request: CaptureRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    this.validateConfig(config, ['client_id', 'client_secret']);
+
+    const startTime = Date.now();
+
+    try {
+      const accessToken = await this.getAccessToken(config);
+      const authorizationId = await this.getAuthorizationId(
+        request.gateway_transaction_id,
+        accessToken,
+        config
+      );
+
+      const captureData = {
+        amount: request.amount ? {
+          currency_code: request.currency,
+          value: formatDecimalAmount(request.amount, request.currency)
+        } : undefined,
+        final_capture: true
+      };
+
+      const response = await this.makeApiRequest(
+        `${this.getApiBaseUrl(config)}/v2/payments/authorizations/${authorizationId}/capture`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            // Stable per authorization and amount, so a retried capture is deduplicated by PayPal
+            'PayPal-Request-Id': `${authorizationId}-capture-${captureData.amount?.value ?? 'full'}`
+          },
+          body: JSON.stringify(captureData)
+        },
+        config
+      );
+
+      const processingTime = Date.now() - startTime;
+      const capture = response.data;
+
+      return this.mapPayPalCapture(capture.custom_id, capture, capture, processingTime);
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      return this.createErrorResponse(
+        request.gateway_transaction_id,
+        this.mapPayPalError(error),
+        error,
+        processingTime
+      );
+    }
+  }
+
+  async voidAuthorization(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse> {
+    this.validateConfig(config, ['client_id', 'client_secret']);
+
+    try {
+      const accessToken = await this.getAccessToken(config);
+      const order = await this.getOrder(gatewayTransactionId, accessToken, config);
+      const authorization = order.purchase_units?.[0]?.payments?.authorizations?.[0];
+
+      // An order the buyer never approved holds no funds
+      if (!authorization) {
+        return this.createVoidedResponse(
+          order.purchase_units?.[0]?.custom_id,
+          gatewayTransactionId,
+          order
+        );
+      }
+
+      const response = await this.makeApiRequest(
+        `${this.getApiBaseUrl(config)}/v2/payments/authorizations/${authorization.id}/void`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'return=representation'
+          }
+        },
+        config
+      );
+
+      return this.createVoidedResponse(
+        order.purchase_units?.[0]?.custom_id,
+        gatewayTransactionId,
+        response.data
+      );
+    } catch (error) {
+      return this.createErrorResponse(
+        gatewayTransactionId,
+        this.mapPayPalError(error),
+        error
+      );
+    }
+  }
+
+  private async createOrder(
+    request: PaymentRequest,
+    config: GatewayConfig,
+    intent: 'CAPTURE' | 'AUTHORIZE'
+  ): Promise<PaymentResponse> {
     this.validateConfig(config, ['client_id', 'client_secret']);
     
     const startTime = Date.now();
@@ -36,12 +184,12 @@ export class PayPalGateway extends BasePaymentGateway {
       
       // Step 2: Create payment order
       const orderData = {
-        intent: 'CAPTURE',
+        intent,
         purchase_units: [{
           reference_id: request.merchant_reference,
           amount: {
             currency_code: request.currency,
-            value: request.amount.toFixed(2) // PayPal uses decimal format
+            value: formatDecimalAmount(request.amount, request.currency) // PayPal uses decimal format
           },
           description: `Payment for ${request.merchant_reference}`,
           custom_id: request.merchant_reference
@@ -58,8 +206,8 @@ export class PayPalGateway extends BasePaymentGateway {
           }
         },
         application_context: {
-          return_url: `${config.features?.return_url || 'https://example.com'}/success`,
-          cancel_url: `${config.features?.return_url || 'https://example.com'}/cancel`
+          return_url: `${request.return_url || config.features?.return_url || 'https://example.com'}/success`,
+          cancel_url: `${request.return_url || config.features?.return_url || 'https://example.com'}/cancel`
         }
       };
 
@@ -70,7 +218,7 @@ export class PayPalGateway extends BasePaymentGateway {
           headers: {
             'Authorization': `Bearer ${accessToken}`,
             'Content-Type': 'application/json',
-            'PayPal-Request-Id': this.generateRequestId()
+            'PayPal-Request-Id': request.idempotency_key || this.generateRequestId()
           },
           body: JSON.stringify(orderData)
         },
@@ -97,8 +245,8 @@ export class PayPalGateway extends BasePaymentGateway {
     
     const refundData = {
       amount: request.amount ? {
-        currency_code: 'USD', // Should come from original transaction
-        value: request.amount.toFixed(2)
+        currency_code: request.currency,
+        value: formatDecimalAmount(request.amount, request.currency)
       } : undefined,
       note_to_payer: request.reason || 'Refund processed'
     };
@@ -111,7 +259,7 @@ export class PayPalGateway extends BasePaymentGateway {
           headers: {
             'Authorization': `Bearer ${accessToken}`,
             'Content-Type': 'application/json',
-            'PayPal-Request-Id': this.generateRequestId()
+            'PayPal-Request-Id': request.idempotency_key || this.generateRequestId()
           },
           body: JSON.stringify(refundData)
         },
@@ -127,15 +275,60 @@ export class PayPalGateway extends BasePaymentGateway {
         gateway_response: response.data
       };
     } catch (error) {
-      return {
-        success: false,
-        refund_id: '',
-        gateway_refund_id: '',
-        refunded_amount: 0,
-        status: 'failed',
-        error_message: this.mapPayPalError(error),
-        gateway_response: error
-      };
+      return this.createRefundErrorResponse(this.mapPayPalError(error), error);
+    }
+  }
+
+  async confirmPayment(request: ConfirmPaymentRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    this.validateConfig(config, ['client_id', 'client_secret']);
+
+    const startTime = Date.now();
+    const orderId = request.gateway_transaction_id;
+
+    // The return URL carries the order id as "token"
+    if (request.return_params?.token && request.return_params.token !== orderId) {
+      return this.createErrorResponse(
+        request.merchant_reference || orderId,
+        createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+          message: `Return token does not match order ${orderId}`
+        })
+      );
+    }
+
+    try {
+      const accessToken = await this.getAccessToken(config);
+      const order = await this.getOrder(orderId, accessToken, config);
+      const merchantReference = request.merchant_reference || order.purchase_units?.[0]?.custom_id;
+
+      // Authorize-intent orders hold the funds now and are captured later through capturePayment
+      if (order.intent === 'AUTHORIZE') {
+        if (order.status !== 'APPROVED' && order.status !== 'COMPLETED') {
+          return this.mapPayPalOrderResponse(merchantReference, { data: order }, Date.now() - startTime);
+        }
+
+        await this.getAuthorizationId(orderId, accessToken, config);
+        return this.createAuthorizedResponse(merchantReference, orderId, order, Date.now() - startTime);
+      }
+
+      // Approval alone moves no money; capture the order (once) to complete the payment
+      const completed = order.status === 'APPROVED'
+        ? await this.captureOrder(orderId, accessToken, config)
+        : order;
+      const capture = completed.purchase_units?.[0]?.payments?.captures?.[0];
+
+      if (completed.status !== 'COMPLETED' || !capture) {
+        return this.mapPayPalOrderResponse(merchantReference, { data: completed }, Date.now() - startTime);
+      }
+
+      // Refunds are issued against the capture id, so it replaces the order id
+      return this.mapPayPalCapture(merchantReference, capture, completed, Date.now() - startTime);
+    } catch (error) {
+      return this.createErrorResponse(
+        request.merchant_reference || orderId,
+        this.mapPayPalError(error),
+        error,
+        Date.now() - startTime
+      );
     }
   }
 
@@ -169,6 +362,46 @@ export class PayPalGateway extends BasePaymentGateway {
     }
   }
 
+  // Transaction search only spans 31 days per request, so longer ranges are split
+  async listSettlements(range: DateRange, config: GatewayConfig): Promise<SettlementRecord[]> {
+    this.validateConfig(config, ['client_id', 'client_secret']);
+
+    const accessToken = await this.getAccessToken(config);
+    const records: SettlementRecord[] = [];
+    const end = Date.parse(range.to);
+
+    for (let start = Date.parse(range.from); start < end; start += TRANSACTION_SEARCH_MAX_MS) {
+      const windowEnd = Math.min(start + TRANSACTION_SEARCH_MAX_MS, end);
+
+      for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+        const params = new URLSearchParams({
+          start_date: this.formatSearchDate(start),
+          end_date: this.formatSearchDate(windowEnd),
+          fields: 'transaction_info',
+          page_size: String(TRANSACTION_SEARCH_PAGE_SIZE),
+          page: String(page)
+        });
+
+        const response = await this.makeApiRequest(
+          `${this.getApiBaseUrl(config)}/v1/reporting/transactions?${params}`,
+          {
+            method: 'GET',
+            headers: {
+              'Authorization': `Bearer ${accessToken}`
+            }
+          },
+          config
+        );
+
+        totalPages = response.data.total_pages || 1;
+        const details: PayPalTransactionDetail[] = response.data.transaction_details || [];
+        records.push(...details.map(detail => this.mapPayPalSearchTransaction(detail.transaction_info)));
+      }
+    }
+
+    return records;
+  }
+
   async verifyWebhookSignature(request: WebhookVerificationRequest, config: GatewayConfig): Promise<boolean> {
     const signature = request.headers['paypal-transmission-sig'];
     const certId = request.headers['paypal-cert-id'];
@@ -179,6 +412,11 @@ export class PayPalGateway extends BasePaymentGateway {
       return false;
     }
 
+    // PayPal signs the transmission time, so an old transmission is a replay
+    if (!isWebhookTimestampValid(Date.parse(timestamp) / 1000, config)) {
+      return false;
+    }
+
     try {
       // PayPal webhook verification (simplified)
       // In production, implement proper certificate verification
@@ -223,13 +461,48 @@ export class PayPalGateway extends BasePaymentGateway {
 
   async parseWebhookEvent(request: WebhookVerificationRequest, config: GatewayConfig): Promise<WebhookEvent> {
     const payload = JSON.parse(request.body);
-    
-    return {
-      event_type: this.mapPayPalEventType(payload.event_type),
-      transaction_id: payload.resource?.id,
+    const resource = payload.resource || {};
+    const eventType = this.mapPayPalEventType(payload.event_type);
+
+    const event: WebhookEvent = {
+      event_id: payload.id,
+      event_type: eventType,
+      gateway_event_type: payload.event_type,
       data: payload,
       timestamp: payload.create_time
     };
+
+    if (payload.event_type?.startsWith('CHECKOUT.ORDER.')) {
+      event.gateway_order_id = resource.id;
+    } else if (eventType === 'refund.processed') {
+      // The refund links "up" to the capture it was issued against
+      const links: PayPalLink[] = resource.links || [];
+      const captureLink = links.find(link => link.rel === 'up')?.href || '';
+      event.gateway_transaction_id = captureLink.split('/').pop() || undefined;
+      event.refund = {
+        gateway_refund_id: resource.id,
+        amount: parseFloat(resource.amount?.value || 0),
+        currency: resource.amount?.currency_code,
+        status: resource.status === 'COMPLETED' ? 'success'
+          : resource.status === 'PENDING' ? 'pending' : 'failed'
+      };
+    } else if (eventType.startsWith('dispute.')) {
+      event.gateway_transaction_id = resource.disputed_transactions?.[0]?.seller_transaction_id;
+      event.dispute = {
+        gateway_dispute_id: resource.dispute_id,
+        status: this.mapPayPalDisputeStatus(resource),
+        amount: resource.dispute_amount ? parseFloat(resource.dispute_amount.value) : undefined,
+        currency: resource.dispute_amount?.currency_code,
+        reason: resource.reason,
+        evidence_due_by: resource.seller_response_due_date,
+        gateway_status: resource.status
+      };
+    } else {
+      event.gateway_transaction_id = resource.id;
+      event.gateway_order_id = resource.supplementary_data?.related_ids?.order_id;
+    }
+
+    return event;
   }
 
   isTransactionIdValid(transactionId: string): boolean {
@@ -256,12 +529,76 @@ export class PayPalGateway extends BasePaymentGateway {
         },
         body: 'grant_type=client_credentials'
       },
-      config
+      config,
+      { idempotent: true } // Issuing another token has no side effects
     );
 
     return response.data.access_token;
   }
 
+  private async getOrder(orderId: string, accessToken: string, config: GatewayConfig): Promise<any> {
+    const response = await this.makeApiRequest(
+      `${this.getApiBaseUrl(config)}/v2/checkout/orders/${orderId}`,
+      {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`
+        }
+      },
+      config
+    );
+
+    return response.data;
+  }
+
+  private async captureOrder(orderId: string, accessToken: string, config: GatewayConfig): Promise<any> {
+    const response = await this.makeApiRequest(
+      `${this.getApiBaseUrl(config)}/v2/checkout/orders/${orderId}/capture`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          // Stable per order, so the return URL and the approval webhook cannot both capture
+          'PayPal-Request-Id': `${orderId}-capture`
+        }
+      },
+      config
+    );
+
+    return response.data;
+  }
+
+  private async getAuthorizationId(orderId: string, accessToken: string, config: GatewayConfig): Promise<string> {
+    const order = await this.getOrder(orderId, accessToken, config);
+    const existing = order.purchase_units?.[0]?.payments?.authorizations?.[0];
+
+    if (existing) {
+      return existing.id;
+    }
+
+    if (order.status !== 'APPROVED') {
+      throw new Error(`Order ${orderId} has not been approved by the buyer`);
+    }
+
+    // Authorize the approved order to place the hold
+    const response = await this.makeApiRequest(
+      `${this.getApiBaseUrl(config)}/v2/checkout/orders/${orderId}/authorize`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          // Stable per order, so a retried capture cannot place a second hold
+          'PayPal-Request-Id': `${orderId}-authorize`
+        }
+      },
+      config
+    );
+
+    return response.data.purchase_units[0].payments.authorizations[0].id;
+  }
+
   private getApiBaseUrl(config: GatewayConfig): string {
     return config.features?.sandbox ? 
       'https://api.sandbox.paypal.com' : 
@@ -281,7 +618,8 @@ export class PayPalGateway extends BasePaymentGateway {
       );
     } else if (status === 'pending') {
       // Find approval link for redirect
-      const approvalLink = order.links?.find(link => link.rel === 'approve');
+      const links: PayPalLink[] = order.links || [];
+      const approvalLink = links.find(link => link.rel === 'approve');
       return this.createPendingResponse(
         merchantReference,
         order.id,
@@ -292,17 +630,55 @@ export class PayPalGateway extends BasePaymentGateway {
     } else {
       return this.createErrorResponse(
         merchantReference,
-        'Payment failed or was cancelled',
+        createGatewayError(StandardErrorCodes.PROCESSING_ERROR, {
+          gateway_code: order.status,
+          message: 'Payment failed or was cancelled'
+        }),
         order,
         processingTime
       );
     }
   }
 
+  private mapPayPalCapture(
+    merchantReference: string,
+    capture: any,
+    gatewayResponse: any,
+    processingTime?: number
+  ): PaymentResponse {
+    if (capture.status === 'COMPLETED') {
+      return this.createSuccessResponse(
+        merchantReference,
+        capture.id,
+        gatewayResponse,
+        processingTime
+      );
+    } else if (capture.status === 'PENDING') {
+      return this.createPendingResponse(
+        merchantReference,
+        capture.id,
+        undefined,
+        gatewayResponse,
+        processingTime
+      );
+    }
+
+    return this.createErrorResponse(
+      merchantReference,
+      createGatewayError(StandardErrorCodes.CARD_DECLINED, {
+        gateway_code: capture.status_details?.reason || capture.status,
+        message: 'Capture was declined',
+        decline_code: capture.processor_response?.response_code
+      }),
+      gatewayResponse,
+      processingTime
+    );
+  }
+
   private mapPayPalStatus(paypalStatus: string): string {
     const statusMap = {
       'COMPLETED': 'success',
-      'APPROVED': 'success',
+      'APPROVED': 'pending', // Buyer approved; no money moves until the order is captured
       'CREATED': 'pending',
       'SAVED': 'pending',
       'VOIDED': 'failed',
@@ -313,19 +689,70 @@ export class PayPalGateway extends BasePaymentGateway {
 
   private mapPayPalEventType(paypalEventType: string): string {
     const eventMap = {
-      'CHECKOUT.ORDER.APPROVED': 'payment.success',
+      'CHECKOUT.ORDER.APPROVED': 'payment.approved',
       'PAYMENT.CAPTURE.COMPLETED': 'payment.success',
       'PAYMENT.CAPTURE.DENIED': 'payment.failed',
-      'PAYMENT.CAPTURE.REFUNDED': 'refund.processed'
+      'PAYMENT.CAPTURE.REFUNDED': 'refund.processed',
+      'CUSTOMER.DISPUTE.CREATED': 'dispute.created',
+      'CUSTOMER.DISPUTE.UPDATED': 'dispute.updated',
+      'CUSTOMER.DISPUTE.RESOLVED': 'dispute.closed'
     };
     return eventMap[paypalEventType] || paypalEventType;
   }
 
-  private mapPayPalError(error: any): string {
-    if (error.response && error.response.data && error.response.data.name) {
-      return this.mapErrorCode(error.response.data.name);
+  // Event codes T00xx are payments and T11xx reversals such as refunds
+  private mapPayPalSearchTransaction(info: PayPalTransactionInfo): SettlementRecord {
+    const eventCode: string = info.transaction_event_code || '';
+    const type = eventCode.startsWith('T00') ? 'payment' : eventCode.startsWith('T11') ? 'refund' : 'adjustment';
+    const amount = parseFloat(info.transaction_amount?.value || '0');
+    const fee = Math.abs(parseFloat(info.fee_amount?.value || '0'));
+    const statusMap: Record<string, SettlementRecord['status']> = { S: 'settled', P: 'pending' };
+
+    return {
+      gateway_reference: info.transaction_id,
+      // Refunds and reversals point back at the capture they were taken from
+      gateway_transaction_id: type === 'payment' ? info.transaction_id : info.paypal_reference_id || info.transaction_id,
+      type,
+      amount,
+      fee,
+      net: amount - fee,
+      currency: info.transaction_amount?.currency_code || '',
+      status: statusMap[info.transaction_status] || 'failed',
+      created_at: new Date(info.transaction_initiation_date).toISOString()
+    };
+  }
+
+  private formatSearchDate(timestamp: number): string {
+    // PayPal rejects fractional seconds
+    return new Date(timestamp).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+
+  // Resolved disputes are decided by their outcome code rather than their status
+  private mapPayPalDisputeStatus(dispute: any): DisputeStatus {
+    if (dispute.status === 'RESOLVED') {
+      const wonOutcomes = ['RESOLVED_SELLER_FAVOUR', 'CANCELED_BY_BUYER', 'DENIED'];
+      return wonOutcomes.includes(dispute.dispute_outcome?.outcome_code) ? 'won' : 'lost';
     }
-    return this.mapErrorCode(error.message || 'Unknown error');
+
+    return ['OPEN', 'WAITING_FOR_SELLER_RESPONSE'].includes(dispute.status) ? 'needs_response' : 'under_review';
+  }
+
+  private mapPayPalError(error: any): GatewayError {
+    if (error instanceof GatewayHttpError) {
+      // Declines are reported as issues within a generic UNPROCESSABLE_ENTITY error
+      const issue = error.body?.details?.[0];
+      const paypalCode = issue?.issue || error.body?.name;
+      const mapped = paypalCode ? this.mapErrorCode(paypalCode) : StandardErrorCodes.UNKNOWN_ERROR;
+
+      return createGatewayError(mapped !== StandardErrorCodes.UNKNOWN_ERROR ? mapped : error.code, {
+        gateway_code: paypalCode,
+        message: issue?.description || error.body?.message || error.message
+      });
+    }
+
+    return createGatewayError(this.mapErrorCode(error.message || 'Unknown error'), {
+      message: error.message
+    });
   }
 
   mapErrorCode(gatewayErrorCode: string): string {
@@ -1,19 +1,45 @@
 // Razorpay Payment Gateway Implementation
 
 import Razorpay from 'razorpay';
-import crypto from 'crypto';
 import { BasePaymentGateway } from "./base-gateway";
 import { 
   PaymentRequest, 
   PaymentResponse, 
   RefundRequest, 
   RefundResponse,
+  CaptureRequest,
+  ConfirmPaymentRequest,
   WebhookVerificationRequest,
   WebhookEvent,
+  DateRange,
+  SettlementRecord,
   GatewayConfig,
-  StandardErrorCodes
+  GatewayError,
+  DisputeStatus,
+  StandardErrorCodes,
+  createGatewayError,
+  getHttpErrorCode,
+  fromMinorUnits,
+  verifyHmacSignature
 } from "@navipe/interfaces";
 
+const RECON_PAGE_SIZE = 1000;
+
+// Row of Razorpay's settlement recon report; amounts are in minor units
+interface RazorpayReconItem {
+  entity_id: string;
+  type: string; // payment, refund, transfer, adjustment
+  payment_id?: string | null;
+  settlement_id?: string | null;
+  amount: number;
+  fee?: number;
+  debit: number;
+  credit: number;
+  currency: string;
+  settled: boolean;
+  created_at: number;
+}
+
 export class RazorpayGateway extends BasePaymentGateway {
   getGatewayCode(): string {
     return 'razorpay';
@@ -28,6 +54,130 @@ export class RazorpayGateway extends BasePaymentGateway {
   }
 
   async processPayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    return this.createOrder(request, config, true);
+  }
+
+  async authorizePayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    // Payments against this order stay "authorized" until capturePayment
+    return this.createOrder(request, config, false);
+  }
+
+  async capturePayment(request: CaptureRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    this.validateConfig(config, ['key_id', 'key_secret']);
+
+    const razorpay = new Razorpay({
+      key_id: config.credentials.key_id,
+      key_secret: config.credentials.key_secret,
+    });
+
+    const startTime = Date.now();
+
+    try {
+      const payment = await this.findAuthorizedPayment(razorpay, request.gateway_transaction_id);
+
+      // Razorpay only captures the full authorized amount
+      if (request.amount && this.formatAmount(request.amount, request.currency) !== Number(payment.amount)) {
+        return this.createErrorResponse(
+          request.gateway_transaction_id,
+          createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+            message: 'Razorpay does not support partial capture; capture in full and refund the difference'
+          }),
+          payment,
+          Date.now() - startTime
+        );
+      }
+
+      const captured = await razorpay.payments.capture(payment.id, payment.amount, payment.currency);
+      const processingTime = Date.now() - startTime;
+
+      return this.mapRazorpayPayment(captured.notes?.receipt as string, captured, processingTime);
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      return this.createErrorResponse(
+        request.gateway_transaction_id,
+        this.mapRazorpayError(error),
+        error,
+        processingTime
+      );
+    }
+  }
+
+  async voidAuthorization(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse> {
+    // Razorpay has no void API: authorizations that are never captured are
+    // refunded automatically once the capture window expires
+    return this.createVoidedResponse(
+      gatewayTransactionId,
+      gatewayTransactionId,
+      { message: 'Authorization will be released by Razorpay when the capture window expires' }
+    );
+  }
+
+  async confirmPayment(request: ConfirmPaymentRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    this.validateConfig(config, ['key_id', 'key_secret']);
+
+    const razorpay = new Razorpay({
+      key_id: config.credentials.key_id,
+      key_secret: config.credentials.key_secret,
+    });
+
+    const startTime = Date.now();
+    const orderId = request.gateway_transaction_id;
+    const {
+      razorpay_order_id: returnedOrderId,
+      razorpay_payment_id: paymentId,
+      razorpay_signature: signature
+    } = request.return_params;
+
+    // Checkout signs "order_id|payment_id" with the key secret
+    if (
+      !paymentId ||
+      !signature ||
+      (returnedOrderId && returnedOrderId !== orderId) ||
+      !this.isCheckoutSignatureValid(orderId, paymentId, signature, config)
+    ) {
+      return this.createErrorResponse(
+        request.merchant_reference || orderId,
+        createGatewayError(StandardErrorCodes.AUTHENTICATION_ERROR, {
+          message: 'Invalid Razorpay checkout signature'
+        }),
+        undefined,
+        Date.now() - startTime
+      );
+    }
+
+    try {
+      const payment = await razorpay.payments.fetch(paymentId);
+      const processingTime = Date.now() - startTime;
+
+      if (payment.order_id !== orderId) {
+        return this.createErrorResponse(
+          request.merchant_reference || orderId,
+          createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+            message: `Payment ${paymentId} does not belong to order ${orderId}`
+          }),
+          payment,
+          processingTime
+        );
+      }
+
+      // The response carries the pay_ id, which replaces the order id from here on
+      return this.mapRazorpayPayment(request.merchant_reference || orderId, payment, processingTime);
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      return this.createErrorResponse(
+        request.merchant_reference || orderId,
+        this.mapRazorpayError(error),
+        error,
+        processingTime
+      );
+    }
+  }
+
+  private async createOrder(
+    request: PaymentRequest,
+    config: GatewayConfig,
+    autoCapture: boolean
+  ): Promise<PaymentResponse> {
     this.validateConfig(config, ['key_id', 'key_secret']);
     
     const razorpay = new Razorpay({
@@ -39,20 +189,23 @@ export class RazorpayGateway extends BasePaymentGateway {
 
     try {
       const orderOptions = {
-        amount: this.formatAmount(request.amount, request.currency), // Razorpay uses paise
+        amount: this.formatAmount(request.amount, request.currency), // Razorpay uses paise for INR
         currency: request.currency,
         receipt: request.merchant_reference,
+        payment_capture: autoCapture,
+        // Razorpay has no idempotency header; the key is kept on the order for reconciliation
         notes: {
           customer_email: request.customer_email || '',
           customer_phone: request.customer_phone || '',
-          ...request.metadata
+          ...request.metadata,
+          ...(request.idempotency_key && { idempotency_key: request.idempotency_key })
         }
       };
 
       const order = await razorpay.orders.create(orderOptions);
       const processingTime = Date.now() - startTime;
 
-      return this.mapRazorpayOrder(request.merchant_reference, order, processingTime);
+      return this.mapRazorpayOrder(request.merchant_reference, order, config, processingTime);
     } catch (error) {
       const processingTime = Date.now() - startTime;
       return this.createErrorResponse(
@@ -64,6 +217,22 @@ export class RazorpayGateway extends BasePaymentGateway {
     }
   }
 
+  private async findAuthorizedPayment(razorpay: Razorpay, gatewayTransactionId: string): Promise<any> {
+    if (!gatewayTransactionId.startsWith('order_')) {
+      return razorpay.payments.fetch(gatewayTransactionId);
+    }
+
+    // Still holding the order id: find the payment the customer authorized against it
+    const payments = await razorpay.orders.fetchPayments(gatewayTransactionId);
+    const authorized = payments.items.find(payment => payment.status === 'authorized');
+
+    if (!authorized) {
+      throw new Error(`No authorized payment found for order ${gatewayTransactionId}`);
+    }
+
+    return authorized;
+  }
+
   async processRefund(request: RefundRequest, config: GatewayConfig): Promise<RefundResponse> {
     this.validateConfig(config, ['key_id', 'key_secret']);
 
@@ -74,34 +243,38 @@ export class RazorpayGateway extends BasePaymentGateway {
 
     try {
       const refundOptions = {
-        amount: request.amount ? this.formatAmount(request.amount, 'INR') : undefined,
+        amount: request.amount ? this.formatAmount(request.amount, request.currency) : undefined,
+        receipt: request.idempotency_key,
         notes: {
           reason: request.reason || 'Customer request',
           ...request.metadata
         }
       };
 
-      const refund = await razorpay.payments.refund(request.original_transaction_id, refundOptions);
+      // Razorpay does not deduplicate refunds, so a retry returns the refund already created under its receipt
+      const refund = await this.findRefundByReceipt(razorpay, request.original_transaction_id, request.idempotency_key)
+        || await razorpay.payments.refund(request.original_transaction_id, refundOptions);
 
       return {
         success: true,
         refund_id: refund.id,
         gateway_refund_id: refund.id,
-        refunded_amount: refund.amount / 100, // Convert from paise
+        refunded_amount: fromMinorUnits(refund.amount, refund.currency),
         status: refund.status === 'processed' ? 'success' : 'pending',
         gateway_response: refund
       };
     } catch (error) {
-      return {
-        success: false,
-        refund_id: '',
-        gateway_refund_id: '',
-        refunded_amount: 0,
-        status: 'failed',
-        error_message: this.mapRazorpayError(error),
-        gateway_response: error
-      };
+      return this.createRefundErrorResponse(this.mapRazorpayError(error), error);
+    }
+  }
+
+  private async findRefundByReceipt(razorpay: Razorpay, paymentId: string, receipt?: string) {
+    if (!receipt) {
+      return undefined;
     }
+
+    const refunds = await razorpay.payments.fetchMultipleRefund(paymentId, { count: 100 });
+    return refunds.items.find(refund => refund.receipt === receipt);
   }
 
   async checkTransactionStatus(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse> {
@@ -123,33 +296,93 @@ export class RazorpayGateway extends BasePaymentGateway {
     }
   }
 
+  // Razorpay reports by settlement date, so only movements settled within the range are returned
+  async listSettlements(range: DateRange, config: GatewayConfig): Promise<SettlementRecord[]> {
+    this.validateConfig(config, ['key_id', 'key_secret']);
+
+    const razorpay = new Razorpay({
+      key_id: config.credentials.key_id,
+      key_secret: config.credentials.key_secret,
+    });
+
+    const records: SettlementRecord[] = [];
+    const end = Date.parse(range.to);
+
+    // The recon report is fetched one settlement day at a time
+    for (let day = new Date(range.from); day.getTime() < end; day.setUTCDate(day.getUTCDate() + 1)) {
+      for (let skip = 0; ; skip += RECON_PAGE_SIZE) {
+        const report: any = await razorpay.settlements.reports({
+          year: day.getUTCFullYear(),
+          month: day.getUTCMonth() + 1,
+          day: day.getUTCDate(),
+          count: RECON_PAGE_SIZE,
+          skip
+        });
+        const items: RazorpayReconItem[] = report.items || [];
+
+        records.push(...items.map(item => this.mapRazorpayReconItem(item)));
+
+        if (items.length < RECON_PAGE_SIZE) {
+          break;
+        }
+      }
+    }
+
+    return records;
+  }
+
   async verifyWebhookSignature(request: WebhookVerificationRequest, config: GatewayConfig): Promise<boolean> {
     const signature = request.headers['x-razorpay-signature'] || request.signature;
-    const webhookSecret = config.webhook_secret;
 
-    if (!signature || !webhookSecret) {
+    if (!signature) {
       return false;
     }
 
-    try {
-      // Razorpay signature verification
-      const expectedSignature = this.computeRazorpaySignature(request.body, webhookSecret);
-      return signature === expectedSignature;
-    } catch (error) {
-      console.error('Razorpay webhook verification failed:', error);
-      return false;
-    }
+    // Razorpay signs only the body, so there is no delivery timestamp to check; redeliveries
+    // are caught by their x-razorpay-event-id instead
+    return verifyHmacSignature(request.body, signature, config);
   }
 
   async parseWebhookEvent(request: WebhookVerificationRequest, config: GatewayConfig): Promise<WebhookEvent> {
     const payload = JSON.parse(request.body);
-    
-    return {
+    const payment = payload.payload?.payment?.entity;
+    const refund = payload.payload?.refund?.entity;
+    const dispute = payload.payload?.dispute?.entity;
+
+    const event: WebhookEvent = {
+      // Razorpay only identifies the event in a header, which redeliveries repeat
+      event_id: request.headers['x-razorpay-event-id'],
       event_type: this.mapRazorpayEventType(payload.event),
-      transaction_id: payload.payload?.payment?.entity?.id || payload.payload?.order?.entity?.id,
+      gateway_event_type: payload.event,
+      gateway_transaction_id: payment?.id || refund?.payment_id || dispute?.payment_id,
+      gateway_order_id: payment?.order_id || payload.payload?.order?.entity?.id,
       data: payload,
       timestamp: new Date(payload.created_at * 1000).toISOString()
     };
+
+    if (refund) {
+      event.refund = {
+        gateway_refund_id: refund.id,
+        amount: fromMinorUnits(refund.amount, refund.currency),
+        currency: refund.currency,
+        status: refund.status === 'processed' ? 'success'
+          : ['pending', 'created'].includes(refund.status) ? 'pending' : 'failed'
+      };
+    }
+
+    if (dispute) {
+      event.dispute = {
+        gateway_dispute_id: dispute.id,
+        status: this.mapRazorpayDisputeStatus(dispute.status),
+        amount: fromMinorUnits(dispute.amount, dispute.currency),
+        currency: dispute.currency,
+        reason: dispute.reason_code,
+        evidence_due_by: dispute.respond_by ? new Date(dispute.respond_by * 1000).toISOString() : undefined,
+        gateway_status: dispute.status
+      };
+    }
+
+    return event;
   }
 
   isTransactionIdValid(transactionId: string): boolean {
@@ -157,15 +390,33 @@ export class RazorpayGateway extends BasePaymentGateway {
   }
 
   // Razorpay-specific helper methods
-  private mapRazorpayOrder(merchantReference: string, order: any, processingTime?: number): PaymentResponse {
+  private mapRazorpayOrder(
+    merchantReference: string,
+    order: any,
+    config: GatewayConfig,
+    processingTime?: number
+  ): PaymentResponse {
     // Razorpay orders are created first, then payments are made against them
-    return this.createPendingResponse(
+    const response = this.createPendingResponse(
       merchantReference,
       order.id,
       undefined, // No redirect URL for orders
       order,
       processingTime
     );
+
+    // Checkout runs client-side and hands its result back for confirmPayment
+    response.next_action = {
+      type: 'razorpay_checkout',
+      data: {
+        key_id: config.credentials.key_id,
+        order_id: order.id,
+        amount: order.amount,
+        currency: order.currency
+      }
+    };
+
+    return response;
   }
 
   private mapRazorpayPayment(merchantReference: string, payment: any, processingTime?: number): PaymentResponse {
@@ -178,6 +429,13 @@ export class RazorpayGateway extends BasePaymentGateway {
         payment,
         processingTime
       );
+    } else if (status === 'authorized') {
+      return this.createAuthorizedResponse(
+        merchantReference,
+        payment.id,
+        payment,
+        processingTime
+      );
     } else if (status === 'pending') {
       return this.createPendingResponse(
         merchantReference,
@@ -187,9 +445,16 @@ export class RazorpayGateway extends BasePaymentGateway {
         processingTime
       );
     } else {
+      // Failed payments carry the same error fields as API errors, flattened onto the entity
       return this.createErrorResponse(
         merchantReference,
-        payment.error_description || 'Payment failed',
+        this.mapRazorpayError({
+          error: {
+            code: payment.error_code,
+            description: payment.error_description || 'Payment failed',
+            reason: payment.error_reason
+          }
+        }),
         payment,
         processingTime
       );
@@ -199,7 +464,7 @@ export class RazorpayGateway extends BasePaymentGateway {
   private mapRazorpayStatus(razorpayStatus: string): string {
     const statusMap = {
       'captured': 'success',
-      'authorized': 'pending',
+      'authorized': 'authorized',
       'created': 'pending',
       'failed': 'failed',
       'refunded': 'success' // Handled separately for refunds
@@ -213,28 +478,76 @@ export class RazorpayGateway extends BasePaymentGateway {
       'payment.failed': 'payment.failed',
       'payment.authorized': 'payment.processing',
       'refund.processed': 'refund.processed',
-      'dispute.created': 'dispute.created'
+      'payment.dispute.created': 'dispute.created',
+      'payment.dispute.action_required': 'dispute.updated',
+      'payment.dispute.under_review': 'dispute.updated',
+      'payment.dispute.won': 'dispute.closed',
+      'payment.dispute.lost': 'dispute.closed',
+      'payment.dispute.closed': 'dispute.closed'
     };
     return eventMap[razorpayEventType] || razorpayEventType;
   }
 
-  private computeRazorpaySignature(payload: string, secret: string): string {
-    // Razorpay uses HMAC-SHA256 for webhook signature verification
-    return crypto.createHmac('sha256', secret)
-      .update(payload)
-      .digest('hex');
+  private mapRazorpayReconItem(item: RazorpayReconItem): SettlementRecord {
+    const type = item.type === 'payment' ? 'payment' : item.type === 'refund' ? 'refund' : 'adjustment';
+    const amount = fromMinorUnits(Number(item.amount), item.currency);
+    const fee = fromMinorUnits(item.fee || 0, item.currency);
+
+    return {
+      gateway_reference: item.entity_id,
+      gateway_transaction_id: item.payment_id || item.entity_id,
+      type,
+      amount: item.debit > 0 ? -amount : amount,
+      fee,
+      net: fromMinorUnits(item.credit - item.debit, item.currency),
+      currency: item.currency,
+      status: item.settled ? 'settled' : 'pending',
+      settlement_id: item.settlement_id || undefined,
+      created_at: new Date(item.created_at * 1000).toISOString()
+    };
   }
 
-  formatAmount(amount: number, currency: string): number {
-    // Razorpay uses paise for INR (smallest unit)
-    return Math.round(amount * 100);
+  // "closed" disputes ended without a chargeback, so the merchant keeps the funds
+  private mapRazorpayDisputeStatus(status: string): DisputeStatus {
+    const statusMap: Record<string, DisputeStatus> = {
+      'open': 'needs_response',
+      'under_review': 'under_review',
+      'won': 'won',
+      'closed': 'won',
+      'lost': 'lost'
+    };
+    return statusMap[status] || 'under_review';
   }
 
-  private mapRazorpayError(error: any): string {
-    if (error.error && error.error.code) {
-      return this.mapErrorCode(error.error.code);
+  private isCheckoutSignatureValid(
+    orderId: string,
+    paymentId: string,
+    signature: string,
+    config: GatewayConfig
+  ): boolean {
+    // Checkout results are signed with the API key secret rather than the webhook secret
+    return verifyHmacSignature(`${orderId}|${paymentId}`, signature, config, {
+      secrets: [config.credentials.key_secret]
+    });
+  }
+
+  private mapRazorpayError(error: any): GatewayError {
+    const details = error.error || {};
+
+    // Declines report the cause in the reason; the code is often just BAD_REQUEST_ERROR
+    let code = this.mapErrorCode(details.reason);
+    if (code === StandardErrorCodes.UNKNOWN_ERROR) {
+      code = this.mapErrorCode(details.code || error.message || 'Unknown error');
     }
-    return this.mapErrorCode(error.message || 'Unknown error');
+    if (code === StandardErrorCodes.UNKNOWN_ERROR && error.statusCode) {
+      code = getHttpErrorCode(error.statusCode);
+    }
+
+    return createGatewayError(code, {
+      gateway_code: details.code,
+      message: details.description || error.message,
+      decline_code: details.reason
+    });
   }
 
   mapErrorCode(gatewayErrorCode: string): string {
@@ -244,7 +557,14 @@ export class RazorpayGateway extends BasePaymentGateway {
       'INVALID_REQUEST': StandardErrorCodes.INVALID_REQUEST,
       'SERVER_ERROR': StandardErrorCodes.PROCESSING_ERROR,
       'payment_failed': StandardErrorCodes.PROCESSING_ERROR,
-      'amount_exceeded': StandardErrorCodes.INVALID_REQUEST
+      'amount_exceeded': StandardErrorCodes.INVALID_REQUEST,
+      // error.reason values
+      'card_declined': StandardErrorCodes.CARD_DECLINED,
+      'payment_declined': StandardErrorCodes.CARD_DECLINED,
+      'insufficient_balance': StandardErrorCodes.INSUFFICIENT_FUNDS,
+      'card_expired': StandardErrorCodes.EXPIRED_CARD,
+      'incorrect_cvv': StandardErrorCodes.INVALID_CVC,
+      'invalid_card_number': StandardErrorCodes.INVALID_CARD
     };
     return razorpayErrorMap[gatewayErrorCode] || super.mapErrorCode(gatewayErrorCode);
   }
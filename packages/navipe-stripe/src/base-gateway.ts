@@ -6,12 +6,29 @@ import {
   PaymentResponse, 
   RefundRequest, 
   RefundResponse,
+  CaptureRequest,
+  ConfirmPaymentRequest,
   WebhookVerificationRequest,
   WebhookEvent,
+  DateRange,
+  SettlementRecord,
   GatewayConfig,
-  StandardErrorCodes
+  GatewayError,
+  GatewayRequestOptions,
+  GatewayHttpError,
+  StandardErrorCodes,
+  getHttpErrorCode,
+  toMinorUnits
 } from "@navipe/interfaces";
 
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 250;
+const MAX_RETRY_DELAY_MS = 10000; // A longer Retry-After fails the call instead of stalling it
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const IDEMPOTENCY_HEADERS = ['Idempotency-Key', 'PayPal-Request-Id'];
+
 export abstract class BasePaymentGateway implements PaymentGateway {
   // Abstract methods that must be implemented by each gateway
   abstract getGatewayCode(): string;
@@ -20,7 +37,12 @@ export abstract class BasePaymentGateway implements PaymentGateway {
   
   abstract processPayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse>;
   abstract processRefund(request: RefundRequest, config: GatewayConfig): Promise<RefundResponse>;
+  abstract authorizePayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse>;
+  abstract capturePayment(request: CaptureRequest, config: GatewayConfig): Promise<PaymentResponse>;
+  abstract voidAuthorization(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse>;
+  abstract confirmPayment(request: ConfirmPaymentRequest, config: GatewayConfig): Promise<PaymentResponse>;
   abstract checkTransactionStatus(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse>;
+  abstract listSettlements(range: DateRange, config: GatewayConfig): Promise<SettlementRecord[]>;
   
   abstract verifyWebhookSignature(request: WebhookVerificationRequest, config: GatewayConfig): Promise<boolean>;
   abstract parseWebhookEvent(request: WebhookVerificationRequest, config: GatewayConfig): Promise<WebhookEvent>;
@@ -31,8 +53,8 @@ export abstract class BasePaymentGateway implements PaymentGateway {
   }
 
   formatAmount(amount: number, currency: string): number {
-    // Default: assume gateway uses smallest currency unit (cents, paise, etc.)
-    return Math.round(amount * 100);
+    // Default: assume gateway uses smallest currency unit (cents, paise, yen, etc.)
+    return toMinorUnits(amount, currency);
   }
 
   mapErrorCode(gatewayErrorCode: string): string {
@@ -53,36 +75,123 @@ export abstract class BasePaymentGateway implements PaymentGateway {
   protected async makeApiRequest(
     url: string, 
     options: RequestInit, 
-    config: GatewayConfig
+    config: GatewayConfig,
+    requestOptions: GatewayRequestOptions = {}
   ): Promise<any> {
     const startTime = Date.now();
-    
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'RoutePay/1.0',
-          ...options.headers
+    const timeoutMs = requestOptions.timeout_ms ??
+      config.features?.request_timeout_ms ??
+      DEFAULT_REQUEST_TIMEOUT_MS;
+    // Repeating a call the gateway may already have acted on could charge twice
+    const maxRetries = this.isIdempotentRequest(options, requestOptions)
+      ? requestOptions.max_retries ?? config.features?.max_retries ?? DEFAULT_MAX_RETRIES
+      : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      let error: GatewayHttpError;
+      let retryAfterMs: number | undefined;
+
+      try {
+        const response = await fetch(url, {
+          ...options,
+          signal: controller.signal,
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'RoutePay/1.0',
+            ...options.headers
+          }
+        });
+
+        const responseData = await this.parseResponseBody(response);
+        const processingTime = Date.now() - startTime;
+
+        if (response.ok) {
+          return {
+            data: responseData,
+            processing_time_ms: processingTime,
+            status_code: response.status
+          };
         }
-      });
 
-      const responseData = await response.json();
-      const processingTime = Date.now() - startTime;
+        error = new GatewayHttpError(
+          `HTTP ${response.status}: ${responseData?.message || 'Request failed'} (${processingTime}ms)`,
+          getHttpErrorCode(response.status),
+          response.status,
+          responseData
+        );
+        retryAfterMs = this.parseRetryAfter(response.headers.get('Retry-After'));
+      } catch (caught) {
+        const processingTime = Date.now() - startTime;
+        error = caught instanceof Error && caught.name === 'AbortError'
+          ? new GatewayHttpError(
+              `API request timed out after ${timeoutMs}ms (${processingTime}ms)`,
+              StandardErrorCodes.TIMEOUT
+            )
+          : new GatewayHttpError(
+              `API request failed: ${caught instanceof Error ? caught.message : String(caught)} (${processingTime}ms)`,
+              StandardErrorCodes.NETWORK_ERROR
+            );
+      } finally {
+        clearTimeout(timer);
+      }
+
+      // Only timeouts, network failures, throttling and server errors are worth repeating
+      const retryable = error.status === undefined || error.status === 429 || error.status >= 500;
+      const delayMs = retryAfterMs ?? this.getBackoffDelay(attempt);
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${responseData.message || 'Request failed'}`);
+      if (attempt >= maxRetries || !retryable || delayMs > MAX_RETRY_DELAY_MS) {
+        throw error;
       }
 
-      return {
-        data: responseData,
-        processing_time_ms: processingTime,
-        status_code: response.status
-      };
-    } catch (error) {
-      const processingTime = Date.now() - startTime;
-      throw new Error(`API request failed: ${error.message} (${processingTime}ms)`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+
+  private isIdempotentRequest(options: RequestInit, requestOptions: GatewayRequestOptions): boolean {
+    if (requestOptions.idempotent !== undefined) {
+      return requestOptions.idempotent;
+    }
+
+    const method = (options.method || 'GET').toUpperCase();
+    if (IDEMPOTENT_METHODS.includes(method)) {
+      return true;
     }
+
+    // A POST carrying an idempotency key is deduplicated by the gateway
+    const headers = new Headers(options.headers);
+    return IDEMPOTENCY_HEADERS.some(header => headers.has(header));
+  }
+
+  private async parseResponseBody(response: Response): Promise<any> {
+    // Error pages from proxies and load balancers are often HTML rather than JSON
+    const text = await response.text();
+    if (!text) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+      return undefined;
+    }
+
+    // Either delay-seconds or an HTTP date
+    const seconds = Number(header);
+    const delayMs = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+    return Number.isNaN(delayMs) ? undefined : Math.max(delayMs, 0);
+  }
+
+  private getBackoffDelay(attempt: number): number {
+    // Full jitter keeps retries from many workers from arriving together
+    return Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
   }
 
   protected generateRequestId(): string {
@@ -115,7 +224,7 @@ export abstract class BasePaymentGateway implements PaymentGateway {
 
   protected createErrorResponse(
     transactionId: string,
-    errorMessage: string,
+    error: GatewayError,
     gatewayResponse?: any,
     processingTime?: number
   ): PaymentResponse {
@@ -123,12 +232,26 @@ export abstract class BasePaymentGateway implements PaymentGateway {
       success: false,
       transaction_id: transactionId,
       status: 'failed',
-      error_message: errorMessage,
+      error_message: error.code,
+      error,
       gateway_response: gatewayResponse,
       processing_time_ms: processingTime
     };
   }
 
+  protected createRefundErrorResponse(error: GatewayError, gatewayResponse?: any): RefundResponse {
+    return {
+      success: false,
+      refund_id: '',
+      gateway_refund_id: '',
+      refunded_amount: 0,
+      status: 'failed',
+      error_message: error.code,
+      error,
+      gateway_response: gatewayResponse
+    };
+  }
+
   protected createPendingResponse(
     transactionId: string,
     gatewayTransactionId: string,
@@ -146,4 +269,36 @@ export abstract class BasePaymentGateway implements PaymentGateway {
       processing_time_ms: processingTime
     };
   }
+
+  protected createAuthorizedResponse(
+    transactionId: string,
+    gatewayTransactionId: string,
+    gatewayResponse?: any,
+    processingTime?: number
+  ): PaymentResponse {
+    return {
+      success: true,
+      transaction_id: transactionId,
+      gateway_transaction_id: gatewayTransactionId,
+      status: 'authorized',
+      gateway_response: gatewayResponse,
+      processing_time_ms: processingTime
+    };
+  }
+
+  protected createVoidedResponse(
+    transactionId: string,
+    gatewayTransactionId: string,
+    gatewayResponse?: any,
+    processingTime?: number
+  ): PaymentResponse {
+    return {
+      success: true,
+      transaction_id: transactionId,
+      gateway_transaction_id: gatewayTransactionId,
+      status: 'voided',
+      gateway_response: gatewayResponse,
+      processing_time_ms: processingTime
+    };
+  }
 }
\ No newline at end of file
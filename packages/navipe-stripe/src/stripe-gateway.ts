@@ -7,10 +7,21 @@ import {
   PaymentResponse, 
   RefundRequest, 
   RefundResponse,
+  CaptureRequest,
+  ConfirmPaymentRequest,
   WebhookVerificationRequest,
   WebhookEvent,
+  DateRange,
+  SettlementRecord,
   GatewayConfig,
-  StandardErrorCodes
+  GatewayError,
+  DisputeStatus,
+  NextAction,
+  StandardErrorCodes,
+  createGatewayError,
+  getHttpErrorCode,
+  fromMinorUnits,
+  verifyHmacSignature
 } from "@navipe/interfaces";
 
 export class StripeGateway extends BasePaymentGateway {
@@ -27,6 +38,84 @@ export class StripeGateway extends BasePaymentGateway {
   }
 
   async processPayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    return this.createPaymentIntent(request, config, 'automatic');
+  }
+
+  async authorizePayment(request: PaymentRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    // Funds are held until capturePayment or released by voidAuthorization
+    return this.createPaymentIntent(request, config, 'manual');
+  }
+
+  async capturePayment(request: CaptureRequest, config: GatewayConfig): Promise<PaymentResponse> {
+    this.validateConfig(config, ['secret_key']);
+
+    const stripe = new Stripe(config.credentials.secret_key, {
+      apiVersion: '2023-10-16',
+      typescript: true,
+    });
+
+    const startTime = Date.now();
+
+    try {
+      const captureParams: Stripe.PaymentIntentCaptureParams = {};
+
+      // Capturing less than authorized releases the remainder
+      if (request.amount) {
+        captureParams.amount_to_capture = this.formatAmount(request.amount, request.currency);
+      }
+
+      const paymentIntent = await stripe.paymentIntents.capture(
+        request.gateway_transaction_id,
+        captureParams
+      );
+      const processingTime = Date.now() - startTime;
+
+      return this.mapStripePaymentIntent(
+        paymentIntent.metadata?.merchant_reference,
+        paymentIntent,
+        config,
+        processingTime
+      );
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      return this.createErrorResponse(
+        request.gateway_transaction_id,
+        this.mapStripeError(error),
+        error,
+        processingTime
+      );
+    }
+  }
+
+  async voidAuthorization(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse> {
+    this.validateConfig(config, ['secret_key']);
+
+    const stripe = new Stripe(config.credentials.secret_key, {
+      apiVersion: '2023-10-16',
+      typescript: true,
+    });
+
+    try {
+      const paymentIntent = await stripe.paymentIntents.cancel(gatewayTransactionId);
+      return this.createVoidedResponse(
+        paymentIntent.metadata?.merchant_reference,
+        paymentIntent.id,
+        paymentIntent
+      );
+    } catch (error) {
+      return this.createErrorResponse(
+        gatewayTransactionId,
+        this.mapStripeError(error),
+        error
+      );
+    }
+  }
+
+  private async createPaymentIntent(
+    request: PaymentRequest,
+    config: GatewayConfig,
+    captureMethod: Stripe.PaymentIntentCreateParams.CaptureMethod
+  ): Promise<PaymentResponse> {
     this.validateConfig(config, ['secret_key']);
     
     const stripe = new Stripe(config.credentials.secret_key, {
@@ -40,6 +129,7 @@ export class StripeGateway extends BasePaymentGateway {
       const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
         amount: this.formatAmount(request.amount, request.currency),
         currency: request.currency.toLowerCase(),
+        capture_method: captureMethod,
         payment_method_types: this.mapPaymentMethod(request.payment_method),
         metadata: {
           merchant_reference: request.merchant_reference || '',
@@ -60,10 +150,24 @@ export class StripeGateway extends BasePaymentGateway {
         };
       }
 
-      const paymentIntent = await stripe.paymentIntents.create(paymentIntentParams);
+      // With a payment method the intent is confirmed right away; without one the
+      // client collects it and confirms with the client secret from next_action
+      if (request.payment_method_token) {
+        paymentIntentParams.payment_method = request.payment_method_token;
+        paymentIntentParams.confirm = true;
+
+        const returnUrl = request.return_url || config.features?.return_url;
+        if (returnUrl) {
+          paymentIntentParams.return_url = returnUrl;
+        }
+      }
+
+      const paymentIntent = await stripe.paymentIntents.create(paymentIntentParams, {
+        idempotencyKey: request.idempotency_key
+      });
       const processingTime = Date.now() - startTime;
 
-      return this.mapStripePaymentIntent(request.merchant_reference, paymentIntent, processingTime);
+      return this.mapStripePaymentIntent(request.merchant_reference, paymentIntent, config, processingTime);
     } catch (error) {
       const processingTime = Date.now() - startTime;
       return this.createErrorResponse(
@@ -90,36 +194,31 @@ export class StripeGateway extends BasePaymentGateway {
       };
 
       if (request.amount) {
-        refundParams.amount = this.formatAmount(request.amount, 'USD'); // Currency should come from original transaction
+        refundParams.amount = this.formatAmount(request.amount, request.currency);
       }
 
       if (request.metadata) {
         refundParams.metadata = request.metadata;
       }
 
-      const refund = await stripe.refunds.create(refundParams);
+      const refund = await stripe.refunds.create(refundParams, {
+        idempotencyKey: request.idempotency_key
+      });
 
       return {
         success: true,
         refund_id: refund.id,
         gateway_refund_id: refund.id,
-        refunded_amount: refund.amount / 100, // Convert from cents
+        refunded_amount: fromMinorUnits(refund.amount, refund.currency),
         status: refund.status === 'succeeded' ? 'success' : 'pending',
         gateway_response: refund
       };
     } catch (error) {
-      return {
-        success: false,
-        refund_id: '',
-        gateway_refund_id: '',
-        refunded_amount: 0,
-        status: 'failed',
-        error_message: this.mapStripeError(error)
-      };
+      return this.createRefundErrorResponse(this.mapStripeError(error), error);
     }
   }
 
-  async checkTransactionStatus(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse> {
+  async confirmPayment(request: ConfirmPaymentRequest, config: GatewayConfig): Promise<PaymentResponse> {
     this.validateConfig(config, ['secret_key']);
 
     const stripe = new Stripe(config.credentials.secret_key, {
@@ -127,27 +226,62 @@ export class StripeGateway extends BasePaymentGateway {
       typescript: true,
     });
 
+    const startTime = Date.now();
+    const paymentIntentId = request.gateway_transaction_id;
+    const {
+      payment_intent: returnedIntentId,
+      payment_method: paymentMethod
+    } = request.return_params || {};
+
+    // A 3DS redirect lands on the return URL with the intent it authenticated
+    if (returnedIntentId && returnedIntentId !== paymentIntentId) {
+      return this.createErrorResponse(
+        request.merchant_reference || paymentIntentId,
+        createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+          message: `Return parameters do not match payment intent ${paymentIntentId}`
+        })
+      );
+    }
+
     try {
-      const paymentIntent = await stripe.paymentIntents.retrieve(gatewayTransactionId);
+      let paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+
+      // Resume an intent that still needs confirming, with the payment method the client collected if any
+      const awaitingConfirmation = paymentIntent.status === 'requires_confirmation' ||
+        (paymentIntent.status === 'requires_payment_method' && paymentMethod);
+
+      if (awaitingConfirmation) {
+        const confirmParams: Stripe.PaymentIntentConfirmParams = {};
+
+        if (paymentMethod) {
+          confirmParams.payment_method = paymentMethod;
+        }
+        const returnUrl = request.return_url || config.features?.return_url;
+        if (returnUrl) {
+          confirmParams.return_url = returnUrl;
+        }
+
+        paymentIntent = await stripe.paymentIntents.confirm(paymentIntentId, confirmParams);
+      }
+
       return this.mapStripePaymentIntent(
-        paymentIntent.metadata?.merchant_reference, 
-        paymentIntent
+        request.merchant_reference || paymentIntent.metadata?.merchant_reference,
+        paymentIntent,
+        config,
+        Date.now() - startTime
       );
     } catch (error) {
       return this.createErrorResponse(
-        gatewayTransactionId,
-        this.mapStripeError(error)
+        request.merchant_reference || paymentIntentId,
+        this.mapStripeError(error),
+        error,
+        Date.now() - startTime
       );
     }
   }
 
-  async verifyWebhookSignature(request: WebhookVerificationRequest, config: GatewayConfig): Promise<boolean> {
-    const signature = request.headers['stripe-signature'] || request.signature;
-    const webhookSecret = config.webhook_secret;
-
-    if (!signature || !webhookSecret) {
-      return false;
-    }
+  async checkTransactionStatus(gatewayTransactionId: string, config: GatewayConfig): Promise<PaymentResponse> {
+    this.validateConfig(config, ['secret_key']);
 
     const stripe = new Stripe(config.credentials.secret_key, {
       apiVersion: '2023-10-16',
@@ -155,45 +289,83 @@ export class StripeGateway extends BasePaymentGateway {
     });
 
     try {
-      // Use Stripe SDK for webhook verification - much more reliable!
-      const event = stripe.webhooks.constructEvent(request.body, signature, webhookSecret);
-      return true; // If no exception thrown, signature is valid
+      const paymentIntent = await stripe.paymentIntents.retrieve(gatewayTransactionId);
+      return this.mapStripePaymentIntent(
+        paymentIntent.metadata?.merchant_reference, 
+        paymentIntent,
+        config
+      );
     } catch (error) {
-      console.error('Stripe webhook verification failed:', error.message);
-      return false;
+      return this.createErrorResponse(
+        gatewayTransactionId,
+        this.mapStripeError(error)
+      );
     }
   }
 
-  async parseWebhookEvent(request: WebhookVerificationRequest, config: GatewayConfig): Promise<WebhookEvent> {
+  // Balance transactions for the range, traced back to the PaymentIntent they belong to
+  async listSettlements(range: DateRange, config: GatewayConfig): Promise<SettlementRecord[]> {
+    this.validateConfig(config, ['secret_key']);
+
     const stripe = new Stripe(config.credentials.secret_key, {
       apiVersion: '2023-10-16',
       typescript: true,
     });
 
-    try {
-      // Use Stripe SDK to parse webhook event - handles versioning automatically
-      const event = stripe.webhooks.constructEvent(
-        request.body, 
-        request.headers['stripe-signature'] || request.signature, 
-        config.webhook_secret
-      );
-      
-      return {
-        event_type: this.mapStripeEventType(event.type),
-        transaction_id: event.data?.object?.id,
-        data: event,
-        timestamp: new Date(event.created * 1000).toISOString()
-      };
-    } catch (error) {
-      // Fallback to manual parsing if SDK fails
-      const payload = JSON.parse(request.body);
-      return {
-        event_type: this.mapStripeEventType(payload.type),
-        transaction_id: payload.data?.object?.id,
-        data: payload,
-        timestamp: new Date(payload.created * 1000).toISOString()
-      };
+    const records: SettlementRecord[] = [];
+    const balanceTransactions = stripe.balanceTransactions.list({
+      created: {
+        gte: Math.floor(Date.parse(range.from) / 1000),
+        lt: Math.floor(Date.parse(range.to) / 1000)
+      },
+      expand: ['data.source'],
+      limit: 100
+    });
+
+    for await (const balanceTransaction of balanceTransactions) {
+      const source: any = balanceTransaction.source;
+      const paymentIntent = source?.payment_intent || source?.charge?.payment_intent;
+
+      // Payouts and top-ups move the balance without belonging to a payment
+      if (!paymentIntent) {
+        continue;
+      }
+
+      const currency = balanceTransaction.currency.toUpperCase();
+      records.push({
+        gateway_reference: balanceTransaction.id,
+        gateway_transaction_id: typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id,
+        type: this.mapStripeBalanceTransactionType(balanceTransaction.type),
+        amount: fromMinorUnits(balanceTransaction.amount, currency),
+        fee: fromMinorUnits(balanceTransaction.fee, currency),
+        net: fromMinorUnits(balanceTransaction.net, currency),
+        currency,
+        status: balanceTransaction.status === 'available' ? 'settled' : 'pending',
+        created_at: new Date(balanceTransaction.created * 1000).toISOString()
+      });
+    }
+
+    return records;
+  }
+
+  async verifyWebhookSignature(request: WebhookVerificationRequest, config: GatewayConfig): Promise<boolean> {
+    const header = request.headers['stripe-signature'] || request.signature;
+
+    if (!header) {
+      return false;
     }
+
+    // Header format: t=<unix seconds>,v1=<signature>[,v1=<signature>...]
+    const parts = header.split(',').map(part => part.split('='));
+    const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+    return verifyHmacSignature(`${timestamp}.${request.body}`, signatures, config, { timestamp });
+  }
+
+  async parseWebhookEvent(request: WebhookVerificationRequest, config: GatewayConfig): Promise<WebhookEvent> {
+    // The signature is checked separately by verifyWebhookSignature
+    return this.mapStripeEvent(JSON.parse(request.body));
   }
 
   isTransactionIdValid(transactionId: string): boolean {
@@ -213,9 +385,13 @@ export class StripeGateway extends BasePaymentGateway {
   private mapStripePaymentIntent(
     merchantReference: string, 
     paymentIntent: Stripe.PaymentIntent, 
+    config: GatewayConfig,
     processingTime?: number
   ): PaymentResponse {
-    const status = this.mapStripeStatus(paymentIntent.status);
+    // Only an intent whose last attempt failed has failed; a new one waits for the client's payment method
+    const status = paymentIntent.status === 'requires_payment_method' && !paymentIntent.last_payment_error
+      ? 'pending'
+      : this.mapStripeStatus(paymentIntent.status);
     
     if (status === 'success') {
       return this.createSuccessResponse(
@@ -224,24 +400,75 @@ export class StripeGateway extends BasePaymentGateway {
         paymentIntent,
         processingTime
       );
+    } else if (status === 'authorized') {
+      return this.createAuthorizedResponse(
+        merchantReference,
+        paymentIntent.id,
+        paymentIntent,
+        processingTime
+      );
     } else if (status === 'pending') {
-      return this.createPendingResponse(
+      const response = this.createPendingResponse(
         merchantReference,
         paymentIntent.id,
         paymentIntent.next_action?.redirect_to_url?.url,
         paymentIntent,
         processingTime
       );
+
+      response.next_action = this.mapStripeNextAction(paymentIntent, config);
+      return response;
     } else {
       return this.createErrorResponse(
         merchantReference,
-        paymentIntent.last_payment_error?.message || 'Payment failed',
+        paymentIntent.last_payment_error
+          ? this.mapStripeError(paymentIntent.last_payment_error)
+          : createGatewayError(StandardErrorCodes.PROCESSING_ERROR, {
+              gateway_code: paymentIntent.cancellation_reason || paymentIntent.status,
+              message: 'Payment failed'
+            }),
         paymentIntent,
         processingTime
       );
     }
   }
 
+  private mapStripeNextAction(paymentIntent: Stripe.PaymentIntent, config: GatewayConfig): NextAction {
+    const data = {
+      client_secret: paymentIntent.client_secret,
+      publishable_key: config.credentials.publishable_key
+    };
+
+    // No payment method yet, or not confirmed: Stripe.js collects it and confirms the intent
+    if (!paymentIntent.next_action) {
+      return { type: 'stripe_confirm', data };
+    }
+
+    const nextAction = paymentIntent.next_action;
+    const details = this.getStripeNextActionDetails(nextAction);
+
+    return {
+      type: nextAction.type,
+      redirect_url: nextAction.redirect_to_url?.url ?? undefined,
+      data: details ? { ...data, [nextAction.type]: details } : data
+    };
+  }
+
+  // redirect_to_url for 3DS pages, use_stripe_sdk for in-page authentication with
+  // stripe.handleNextAction, verify_with_microdeposits for bank accounts
+  private getStripeNextActionDetails(nextAction: Stripe.PaymentIntent.NextAction): unknown {
+    switch (nextAction.type) {
+      case 'redirect_to_url':
+        return nextAction.redirect_to_url;
+      case 'use_stripe_sdk':
+        return nextAction.use_stripe_sdk;
+      case 'verify_with_microdeposits':
+        return nextAction.verify_with_microdeposits;
+      default:
+        return undefined;
+    }
+  }
+
   private mapStripeAddress(address: any): Stripe.AddressParam {
     return {
       line1: address.line1 || '',
@@ -266,9 +493,10 @@ export class StripeGateway extends BasePaymentGateway {
     const statusMap = {
       'succeeded': 'success',
       'processing': 'processing',
-      'requires_payment_method': 'failed',
+      'requires_payment_method': 'failed', // After a failed attempt; see mapStripePaymentIntent
       'requires_confirmation': 'pending',
       'requires_action': 'pending',
+      'requires_capture': 'authorized',
       'canceled': 'failed'
     };
     return statusMap[stripeStatus] || 'failed';
@@ -279,28 +507,111 @@ export class StripeGateway extends BasePaymentGateway {
       'payment_intent.succeeded': 'payment.success',
       'payment_intent.payment_failed': 'payment.failed',
       'payment_intent.processing': 'payment.processing',
-      'charge.dispute.created': 'dispute.created'
+      // Charges no longer embed their refunds, so refunds are tracked through the Refund events
+      'refund.created': 'refund.processed',
+      'refund.updated': 'refund.processed',
+      'charge.refund.updated': 'refund.processed',
+      'charge.dispute.created': 'dispute.created',
+      'charge.dispute.updated': 'dispute.updated',
+      'charge.dispute.funds_withdrawn': 'dispute.updated',
+      'charge.dispute.funds_reinstated': 'dispute.updated',
+      'charge.dispute.closed': 'dispute.closed'
     };
     return eventMap[stripeEventType] || stripeEventType;
   }
 
-  private mapStripeError(error: any): string {
-    if (error.type === 'StripeCardError') {
-      // Card was declined
-      return this.mapErrorCode(error.decline_code || error.code);
+  // Payment intent, charge, refund and dispute events all lead back to the PaymentIntent
+  private mapStripeEvent(event: any): WebhookEvent {
+    const object = event.data?.object || {};
+    const parsed: WebhookEvent = {
+      event_id: event.id,
+      event_type: this.mapStripeEventType(event.type),
+      gateway_event_type: event.type,
+      gateway_transaction_id: object.object === 'payment_intent' ? object.id : object.payment_intent,
+      data: event,
+      timestamp: new Date(event.created * 1000).toISOString()
+    };
+
+    // Refund events carry the refund itself
+    const refund = object.object === 'refund' ? object : undefined;
+    if (parsed.event_type === 'refund.processed' && refund) {
+      parsed.refund = {
+        gateway_refund_id: refund.id,
+        amount: fromMinorUnits(refund.amount, refund.currency),
+        currency: refund.currency.toUpperCase(),
+        status: refund.status === 'succeeded' ? 'success'
+          : ['pending', 'requires_action'].includes(refund.status) ? 'pending' : 'failed'
+      };
+    }
+
+    if (object.object === 'dispute') {
+      parsed.dispute = {
+        gateway_dispute_id: object.id,
+        status: this.mapStripeDisputeStatus(object.status),
+        amount: fromMinorUnits(object.amount, object.currency),
+        currency: object.currency.toUpperCase(),
+        reason: object.reason,
+        evidence_due_by: object.evidence_details?.due_by
+          ? new Date(object.evidence_details.due_by * 1000).toISOString()
+          : undefined,
+        gateway_status: object.status
+      };
+    }
+
+    return parsed;
+  }
+
+  private mapStripeBalanceTransactionType(type: string): SettlementRecord['type'] {
+    if (type === 'charge' || type === 'payment') return 'payment';
+    if (type === 'refund' || type === 'payment_refund') return 'refund';
+    return 'adjustment';
+  }
+
+  // Inquiries (warning_*) follow the same lifecycle; one closed without a chargeback is won
+  private mapStripeDisputeStatus(status: string): DisputeStatus {
+    const statusMap: Record<string, DisputeStatus> = {
+      'warning_needs_response': 'needs_response',
+      'needs_response': 'needs_response',
+      'warning_under_review': 'under_review',
+      'under_review': 'under_review',
+      'warning_closed': 'won',
+      'won': 'won',
+      'lost': 'lost'
+    };
+    return statusMap[status] || 'under_review';
+  }
+
+  // Handles both SDK errors and a Payment Intent's last_payment_error
+  private mapStripeError(error: any): GatewayError {
+    return createGatewayError(this.mapStripeErrorCode(error), {
+      gateway_code: error.code,
+      message: error.message,
+      decline_code: error.decline_code
+    });
+  }
+
+  private mapStripeErrorCode(error: any): string {
+    if (error.type === 'StripeCardError' || error.type === 'card_error') {
+      // Card was declined; issuer reasons without a mapping are still declines
+      const code = this.mapErrorCode(error.decline_code || error.code);
+      return code === StandardErrorCodes.UNKNOWN_ERROR ? StandardErrorCodes.CARD_DECLINED : code;
     } else if (error.type === 'StripeRateLimitError') {
       return StandardErrorCodes.RATE_LIMITED;
     } else if (error.type === 'StripeInvalidRequestError') {
       return StandardErrorCodes.INVALID_REQUEST;
     } else if (error.type === 'StripeAPIError') {
-      return StandardErrorCodes.PROCESSING_ERROR;
+      // Problems on Stripe's side, which count towards the circuit breaker
+      return StandardErrorCodes.GATEWAY_ERROR;
     } else if (error.type === 'StripeConnectionError') {
       return StandardErrorCodes.NETWORK_ERROR;
     } else if (error.type === 'StripeAuthenticationError') {
       return StandardErrorCodes.AUTHENTICATION_ERROR;
     }
-    
-    return this.mapErrorCode(error.code || error.message);
+
+    const code = this.mapErrorCode(error.code || error.message);
+    return code === StandardErrorCodes.UNKNOWN_ERROR && error.statusCode
+      ? getHttpErrorCode(error.statusCode)
+      : code;
   }
 
   mapErrorCode(gatewayErrorCode: string): string {
@@ -311,6 +622,9 @@ export class StripeGateway extends BasePaymentGateway {
       'stolen_card': StandardErrorCodes.CARD_DECLINED,
       'expired_card': StandardErrorCodes.EXPIRED_CARD,
       'incorrect_cvc': StandardErrorCodes.INVALID_CVC,
+      'invalid_cvc': StandardErrorCodes.INVALID_CVC,
+      'incorrect_number': StandardErrorCodes.INVALID_CARD,
+      'invalid_number': StandardErrorCodes.INVALID_CARD,
       'processing_error': StandardErrorCodes.PROCESSING_ERROR,
       'rate_limit': StandardErrorCodes.RATE_LIMITED
     };
@@ -0,0 +1,209 @@
+// Gateway Health Aggregation Job
+import { isTrippingError } from './circuit-breaker.ts';
+
+type AggregationInput = {
+  windowMinutes?: number; // Length of each measurement window; defaults to 15
+  windows?: number;       // Closed windows to (re)compute, most recent first; defaults to 4
+};
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+type RoutingAttempt = {
+  gateway_id: string;
+  status: string;
+  error_message?: string; // Standard error code of a failed attempt
+  processing_time_ms?: number;
+  created_at: string;
+};
+
+type HealthMetric = {
+  gateway_id: string;
+  success_rate: number;
+  average_response_time_ms: number | null;
+  total_transactions: number;
+  failed_transactions: number;
+  measurement_period_start: string;
+  measurement_period_end: string;
+};
+
+const DEFAULT_WINDOW_MINUTES = 15;
+const DEFAULT_WINDOWS = 4;
+
+// Attempts still "processing" have no outcome yet and are left out of the window
+const COMPLETED_STATUSES = ["success", "failed"];
+
+/**
+ * Rolls routing_attempts into per-gateway gateway_health_metrics windows for the routing engine.
+ * Windows are aligned to the clock and upserted, so overlapping schedules and reruns
+ * recompute a window instead of duplicating it; attempts that complete late are counted
+ * as long as their window is still within the lookback.
+ */
+export async function main(
+  input: AggregationInput,
+  hasura: HasuraResource
+): Promise<{
+  success: boolean;
+  windows?: number;
+  metrics?: number;
+  error?: string;
+}> {
+  try {
+    const windowMs = (input?.windowMinutes || DEFAULT_WINDOW_MINUTES) * 60 * 1000;
+    const windowCount = input?.windows || DEFAULT_WINDOWS;
+
+    // Only closed windows are aggregated; the current one is still filling up
+    const lastWindowEnd = Math.floor(Date.now() / windowMs) * windowMs;
+    const firstWindowStart = lastWindowEnd - windowCount * windowMs;
+
+    const attempts = await getCompletedAttempts(
+      hasura,
+      new Date(firstWindowStart).toISOString(),
+      new Date(lastWindowEnd).toISOString()
+    );
+
+    const metrics: HealthMetric[] = [];
+
+    for (let start = firstWindowStart; start < lastWindowEnd; start += windowMs) {
+      const inWindow = attempts.filter(a => {
+        const createdAt = new Date(a.created_at).getTime();
+        return createdAt >= start && createdAt < start + windowMs;
+      });
+
+      metrics.push(...aggregateWindow(
+        inWindow,
+        new Date(start).toISOString(),
+        new Date(start + windowMs).toISOString()
+      ));
+    }
+
+    if (metrics.length > 0) {
+      await upsertHealthMetrics(hasura, metrics);
+    }
+
+    return {
+      success: true,
+      windows: windowCount,
+      metrics: metrics.length
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+// Gateways without attempts in a window get no row, so routing falls back to its defaults
+function aggregateWindow(
+  attempts: RoutingAttempt[],
+  periodStart: string,
+  periodEnd: string
+): HealthMetric[] {
+  const byGateway = new Map<string, RoutingAttempt[]>();
+
+  for (const attempt of attempts) {
+    byGateway.set(attempt.gateway_id, [...(byGateway.get(attempt.gateway_id) || []), attempt]);
+  }
+
+  return [...byGateway.entries()].map(([gateway_id, rows]) => {
+    // Declines mean the gateway answered; only its own failures count against its health
+    const failed = rows.filter(r => r.status === "failed" && isTrippingError(r.error_message)).length;
+    const timings = rows
+      .map(r => r.processing_time_ms)
+      .filter(ms => ms !== null && ms !== undefined)
+      .map(Number);
+
+    return {
+      gateway_id,
+      success_rate: Math.round(((rows.length - failed) / rows.length) * 10000) / 100,
+      average_response_time_ms: timings.length > 0
+        ? Math.round(timings.reduce((sum, ms) => sum + ms, 0) / timings.length)
+        : null,
+      total_transactions: rows.length,
+      failed_transactions: failed,
+      measurement_period_start: periodStart,
+      measurement_period_end: periodEnd
+    };
+  });
+}
+
+async function getCompletedAttempts(
+  hasura: HasuraResource,
+  from: string,
+  to: string
+): Promise<RoutingAttempt[]> {
+  const query = `
+    query GetCompletedRoutingAttempts($from: timestamptz!, $to: timestamptz!, $statuses: [transaction_status!]!) {
+      routing_attempts(
+        where: {
+          created_at: {_gte: $from, _lt: $to},
+          status: {_in: $statuses}
+        }
+      ) {
+        gateway_id
+        status
+        error_message
+        processing_time_ms
+        created_at
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, query, {
+    from,
+    to,
+    statuses: COMPLETED_STATUSES
+  });
+
+  return data.routing_attempts;
+}
+
+async function upsertHealthMetrics(hasura: HasuraResource, metrics: HealthMetric[]) {
+  const mutation = `
+    mutation UpsertGatewayHealthMetrics($objects: [gateway_health_metrics_insert_input!]!) {
+      insert_gateway_health_metrics(
+        objects: $objects,
+        on_conflict: {
+          constraint: gateway_health_metrics_gateway_id_period_key,
+          update_columns: [success_rate, average_response_time_ms, total_transactions, failed_transactions]
+        }
+      ) {
+        affected_rows
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, { objects: metrics });
+}
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
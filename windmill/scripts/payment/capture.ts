@@ -0,0 +1,213 @@
+// Payment Capture Workflow
+import { CaptureRequest } from '@navipe/interfaces';
+import { capturePayment } from './gateway-integration.ts';
+import { transitionTransaction } from './transaction-state.ts';
+import { resolveGatewayConfig, findMerchantGateway, MerchantGatewayOverrides } from './gateway-config.ts';
+
+type CaptureInput = {
+  transactionId: string;
+  amount?: number; // If not provided, capture the full authorized amount
+};
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+type Transaction = {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  gateway_transaction_id?: string;
+  metadata?: any;
+  gateway?: {
+    id: string;
+    gateway_code: string;
+    provider: string;
+    credentials: any;
+    features?: any;
+  };
+  merchant: {
+    merchant_gateways: MerchantGatewayOverrides[];
+  };
+};
+
+export async function main(
+  input: CaptureInput,
+  hasura: HasuraResource
+): Promise<{
+  success: boolean;
+  message: string;
+  gatewayTransactionId?: string;
+  capturedAmount?: number;
+  error?: string;
+}> {
+  try {
+    // 1. Fetch the authorized transaction and the gateway holding the funds
+    const transactionQuery = `
+      query GetTransactionForCapture($id: uuid!) {
+        transactions_by_pk(id: $id) {
+          id
+          amount
+          currency
+          status
+          gateway_transaction_id
+          metadata
+          gateway {
+            id
+            gateway_code
+            provider
+            credentials
+            features
+          }
+          merchant {
+            merchant_gateways {
+              gateway_id
+              credentials
+              features
+            }
+          }
+        }
+      }
+    `;
+
+    const { data } = await makeHasuraRequest(hasura, transactionQuery, {
+      id: input.transactionId
+    });
+
+    const transaction: Transaction = data.transactions_by_pk;
+
+    if (!transaction) {
+      throw new Error("Transaction not found");
+    }
+
+    if (transaction.status !== "authorized") {
+      throw new Error(`Transaction is ${transaction.status} and cannot be captured`);
+    }
+
+    if (!transaction.gateway || !transaction.gateway_transaction_id) {
+      throw new Error("Transaction has no gateway authorization to capture");
+    }
+
+    // 2. Captures may be partial but never exceed the authorized amount
+    const captureAmount = input.amount ?? Number(transaction.amount);
+
+    if (captureAmount <= 0) {
+      throw new Error("Capture amount must be greater than zero");
+    }
+
+    if (captureAmount > Number(transaction.amount)) {
+      throw new Error(
+        `Capture amount ${captureAmount} exceeds authorized amount ${transaction.amount}`
+      );
+    }
+
+    // 3. Capture through the authorizing gateway
+    const captureRequest: CaptureRequest = {
+      gateway_transaction_id: transaction.gateway_transaction_id,
+      amount: input.amount,
+      currency: transaction.currency,
+      metadata: transaction.metadata
+    };
+
+    const config = await resolveGatewayConfig(
+      transaction.gateway,
+      findMerchantGateway(transaction.merchant.merchant_gateways, transaction.gateway.id)
+    );
+
+    // Claim the authorization first, so a concurrent capture or void never reaches the gateway
+    const claimed = await transitionTransaction(
+      hasura,
+      transaction.id,
+      "authorized",
+      "processing",
+      TRANSITION_CONTEXT
+    );
+
+    if (!claimed) {
+      throw new Error("Transaction is no longer authorized");
+    }
+
+    const result = await capturePayment(transaction.gateway.provider, captureRequest, config);
+
+    if (!result.success) {
+      const error = result.error?.message || result.error_message || "Capture failed";
+
+      // Nothing was captured, so the authorization can be captured or voided again
+      await transitionTransaction(
+        hasura,
+        transaction.id,
+        "processing",
+        "authorized",
+        { ...TRANSITION_CONTEXT, reason: error }
+      );
+
+      throw new Error(error);
+    }
+
+    // 4. Some gateways issue a new id for the capture; refunds are made against it
+    const gatewayTransactionId = result.gateway_transaction_id || transaction.gateway_transaction_id;
+
+    // Captures the gateway is still settling stay processing until its webhook arrives,
+    // which may also have recorded the capture already
+    await transitionTransaction(
+      hasura,
+      transaction.id,
+      "processing",
+      result.status === "success" ? "success" : "processing",
+      TRANSITION_CONTEXT,
+      {
+        captured_amount: captureAmount,
+        gateway_transaction_id: gatewayTransactionId,
+        gateway_response: result.gateway_response
+      }
+    );
+
+    return {
+      success: true,
+      message: captureAmount < Number(transaction.amount)
+        ? "Partial capture processed"
+        : "Payment captured successfully",
+      gatewayTransactionId,
+      capturedAmount: captureAmount
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      message: "Payment capture failed",
+      error: error.message
+    };
+  }
+}
+
+const TRANSITION_CONTEXT = { performed_by: "capture" };
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
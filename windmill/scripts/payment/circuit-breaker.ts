@@ -0,0 +1,333 @@
+// Gateway Circuit Breaker
+import { StandardErrorCodes } from '@navipe/interfaces';
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type CircuitBreaker = {
+  id: string;
+  gateway_id: string;
+  merchant_id: string | null; // null for the gateway-wide breaker
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at?: string;
+};
+
+// Consecutive tripping failures that open a closed circuit
+export const FAILURE_THRESHOLD = 5;
+
+// How long an open circuit rejects traffic before letting a probe through
+export const COOLDOWN_MS = 30 * 1000;
+
+// Failures that say the gateway itself is unreachable or broken; declines mean it is up
+const TRIPPING_ERROR_CODES: string[] = [
+  StandardErrorCodes.NETWORK_ERROR,
+  StandardErrorCodes.GATEWAY_ERROR,
+  StandardErrorCodes.TIMEOUT
+];
+
+export function isTrippingError(errorCode?: string): boolean {
+  return TRIPPING_ERROR_CODES.includes(errorCode || "");
+}
+
+/**
+ * Load the gateway-wide and merchant-level breakers for the given gateways.
+ * Gateways without a row have never tripped and count as closed.
+ */
+export async function getCircuitBreakers(
+  hasura: HasuraResource,
+  gatewayIds: string[],
+  merchantId: string
+): Promise<CircuitBreaker[]> {
+  const query = `
+    query GetCircuitBreakers($gateway_ids: [uuid!]!, $merchant_id: uuid!) {
+      gateway_circuit_breakers(
+        where: {
+          gateway_id: {_in: $gateway_ids},
+          _or: [
+            {merchant_id: {_is_null: true}},
+            {merchant_id: {_eq: $merchant_id}}
+          ]
+        }
+      ) {
+        id
+        gateway_id
+        merchant_id
+        state
+        consecutive_failures
+        opened_at
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, query, {
+    gateway_ids: gatewayIds,
+    merchant_id: merchantId
+  });
+
+  return data.gateway_circuit_breakers;
+}
+
+/**
+ * Whether routing should consider the gateway at all. An open circuit whose
+ * cooldown has passed counts as available so a probe can be routed to it.
+ */
+export function isCircuitAvailable(
+  breakers: CircuitBreaker[],
+  gatewayId: string,
+  now: number = Date.now()
+): boolean {
+  return breakers
+    .filter(b => b.gateway_id === gatewayId)
+    .every(b => b.state === "closed" || cooldownElapsed(b, now));
+}
+
+/**
+ * Claim permission to call the gateway. Closed circuits always allow the call; after the
+ * cooldown exactly one caller wins the half-open probe, everyone else is turned away until
+ * the probe reports back. A probe that never reports is retried after another cooldown.
+ */
+export async function acquireCircuit(
+  hasura: HasuraResource,
+  breakers: CircuitBreaker[],
+  gatewayId: string,
+  performedBy: string
+): Promise<boolean> {
+  const now = Date.now();
+
+  for (const breaker of breakers.filter(b => b.gateway_id === gatewayId)) {
+    if (breaker.state === "closed") {
+      continue;
+    }
+
+    if (!cooldownElapsed(breaker, now)) {
+      return false;
+    }
+
+    const claimed = await changeState(
+      hasura,
+      breaker,
+      "half_open",
+      { opened_at: new Date(now).toISOString() },
+      performedBy,
+      { opened_at: {_eq: breaker.opened_at} }
+    );
+
+    if (!claimed) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Feed a gateway call's outcome into its breakers. Tripping failures count towards
+ * opening the circuit and re-open a half-open one; anything else closes it again.
+ * The gateway-wide breaker tracks the platform account, so calls a merchant makes
+ * with its own credentials only count against the merchant's breaker.
+ */
+export async function recordCircuitResult(
+  hasura: HasuraResource,
+  breakers: CircuitBreaker[],
+  gatewayId: string,
+  merchantId: string,
+  ownAccount: boolean,
+  errorCode: string | undefined,
+  performedBy: string
+): Promise<void> {
+  const scopes = ownAccount ? [merchantId] : [null, merchantId];
+
+  if (!isTrippingError(errorCode)) {
+    const affected = breakers.filter(b => b.gateway_id === gatewayId && scopes.includes(b.merchant_id));
+    for (const breaker of affected) {
+      if (breaker.state !== "closed" || breaker.consecutive_failures > 0) {
+        await changeState(hasura, breaker, "closed", { consecutive_failures: 0, opened_at: null }, performedBy);
+      }
+    }
+    return;
+  }
+
+  for (const scope of scopes) {
+    const breaker = await incrementFailures(hasura, gatewayId, scope);
+
+    if (breaker.state === "half_open" ||
+        (breaker.state === "closed" && breaker.consecutive_failures >= FAILURE_THRESHOLD)) {
+      await changeState(
+        hasura,
+        breaker,
+        "open",
+        { opened_at: new Date().toISOString() },
+        performedBy,
+        {},
+        errorCode
+      );
+    }
+  }
+}
+
+function cooldownElapsed(breaker: CircuitBreaker, now: number): boolean {
+  return !breaker.opened_at || now - new Date(breaker.opened_at).getTime() >= COOLDOWN_MS;
+}
+
+async function incrementFailures(
+  hasura: HasuraResource,
+  gatewayId: string,
+  merchantId: string | null
+): Promise<CircuitBreaker> {
+  // Create the breaker on its first failure; an existing row is left as it is
+  const insert = `
+    mutation EnsureCircuitBreaker($object: gateway_circuit_breakers_insert_input!) {
+      insert_gateway_circuit_breakers_one(
+        object: $object,
+        on_conflict: {
+          constraint: gateway_circuit_breakers_gateway_id_merchant_id_key,
+          update_columns: []
+        }
+      ) {
+        id
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, insert, {
+    object: { gateway_id: gatewayId, merchant_id: merchantId }
+  });
+
+  const update = `
+    mutation IncrementCircuitFailures($where: gateway_circuit_breakers_bool_exp!, $now: timestamptz!) {
+      update_gateway_circuit_breakers(
+        where: $where,
+        _inc: {consecutive_failures: 1},
+        _set: {last_failure_at: $now}
+      ) {
+        returning {
+          id
+          gateway_id
+          merchant_id
+          state
+          consecutive_failures
+          opened_at
+        }
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, update, {
+    where: {
+      gateway_id: {_eq: gatewayId},
+      merchant_id: merchantId ? {_eq: merchantId} : {_is_null: true}
+    },
+    now: new Date().toISOString()
+  });
+
+  return data.update_gateway_circuit_breakers.returning[0];
+}
+
+/**
+ * Move a breaker out of the state it was read in. The update only applies while the
+ * row is still in that state, so concurrent workers record each change once. The
+ * in-memory breaker follows, so a later change in the same job (closing a half-open
+ * circuit after its probe) matches the row.
+ */
+async function changeState(
+  hasura: HasuraResource,
+  breaker: CircuitBreaker,
+  to: CircuitState,
+  changes: Record<string, any>,
+  performedBy: string,
+  conditions: Record<string, any> = {},
+  reason?: string
+): Promise<boolean> {
+  const mutation = `
+    mutation ChangeCircuitState(
+      $where: gateway_circuit_breakers_bool_exp!,
+      $changes: gateway_circuit_breakers_set_input!
+    ) {
+      update_gateway_circuit_breakers(where: $where, _set: $changes) {
+        affected_rows
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, mutation, {
+    where: { id: {_eq: breaker.id}, state: {_eq: breaker.state}, ...conditions },
+    changes: { ...changes, state: to }
+  });
+
+  if (data.update_gateway_circuit_breakers.affected_rows === 0) {
+    return false;
+  }
+
+  if (breaker.state !== to) {
+    await recordStateChange(hasura, breaker, to, performedBy, reason);
+  }
+
+  Object.assign(breaker, changes, { state: to });
+  return true;
+}
+
+async function recordStateChange(
+  hasura: HasuraResource,
+  breaker: CircuitBreaker,
+  to: CircuitState,
+  performedBy: string,
+  reason?: string
+): Promise<void> {
+  const mutation = `
+    mutation CreateAuditLog($object: audit_logs_insert_input!) {
+      insert_audit_logs_one(object: $object) {
+        id
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, {
+    object: {
+      entity_type: "gateway_circuit_breaker",
+      entity_id: breaker.id,
+      action: `circuit_${to}`,
+      performed_by: performedBy,
+      changes: {
+        gateway_id: breaker.gateway_id,
+        merchant_id: breaker.merchant_id,
+        from: breaker.state,
+        to,
+        consecutive_failures: breaker.consecutive_failures,
+        reason
+      }
+    }
+  });
+}
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
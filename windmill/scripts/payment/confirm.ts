@@ -0,0 +1,208 @@
+// Payment Confirmation Workflow
+import { ConfirmPaymentRequest } from '@navipe/interfaces';
+import { confirmPayment } from './gateway-integration.ts';
+import { transitionTransaction, TransactionStatus } from './transaction-state.ts';
+import { resolveGatewayConfig, findMerchantGateway, MerchantGatewayOverrides } from './gateway-config.ts';
+
+type ConfirmInput = {
+  transactionId: string;
+  returnParams: Record<string, any>; // e.g. razorpay_order_id, razorpay_payment_id, razorpay_signature
+  returnUrl?: string; // Where the customer returns if confirming needs another 3DS step
+};
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+type ConfirmResult = {
+  success: boolean;
+  message: string;
+  status?: string;
+  gatewayTransactionId?: string;
+  redirectUrl?: string;
+  nextAction?: any; // Set when the gateway needs another client step, e.g. 3DS after confirming
+  error?: string;
+};
+
+type Transaction = {
+  id: string;
+  status: string;
+  gateway_transaction_id?: string;
+  gateway?: {
+    id: string;
+    gateway_code: string;
+    provider: string;
+    credentials: any;
+    features?: any;
+  };
+  merchant: {
+    merchant_gateways: MerchantGatewayOverrides[];
+  };
+};
+
+export async function main(
+  input: ConfirmInput,
+  hasura: HasuraResource
+): Promise<ConfirmResult> {
+  try {
+    return await confirmTransaction(hasura, input.transactionId, input.returnParams || {}, input.returnUrl);
+  } catch (error) {
+    return {
+      success: false,
+      message: "Payment confirmation failed",
+      error: error.message
+    };
+  }
+}
+
+// Shared with the webhook handler, which confirms payments the customer completed without returning
+export async function confirmTransaction(
+  hasura: HasuraResource,
+  transactionId: string,
+  returnParams: Record<string, any>,
+  returnUrl?: string
+): Promise<ConfirmResult> {
+  // 1. Fetch the transaction awaiting confirmation
+  const transactionQuery = `
+    query GetTransactionForConfirmation($id: uuid!) {
+      transactions_by_pk(id: $id) {
+        id
+        status
+        gateway_transaction_id
+        gateway {
+          id
+          gateway_code
+          provider
+          credentials
+          features
+        }
+        merchant {
+          merchant_gateways {
+            gateway_id
+            credentials
+            features
+          }
+        }
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, transactionQuery, {
+    id: transactionId
+  });
+
+  const transaction: Transaction = data.transactions_by_pk;
+
+  if (!transaction) {
+    throw new Error("Transaction not found");
+  }
+
+  // The gateway webhook can settle the payment before the customer returns
+  if (["success", "authorized"].includes(transaction.status)) {
+    return {
+      success: true,
+      message: "Payment already confirmed",
+      status: transaction.status,
+      gatewayTransactionId: transaction.gateway_transaction_id
+    };
+  }
+
+  if (!CONFIRMABLE_STATUSES.includes(transaction.status)) {
+    throw new Error(`Transaction is ${transaction.status} and cannot be confirmed`);
+  }
+
+  if (!transaction.gateway || !transaction.gateway_transaction_id) {
+    throw new Error("Transaction has no gateway payment to confirm");
+  }
+
+  // 2. Let the gateway verify the checkout result and report the payment
+  const confirmRequest: ConfirmPaymentRequest = {
+    gateway_transaction_id: transaction.gateway_transaction_id,
+    merchant_reference: transaction.id,
+    return_params: returnParams,
+    return_url: returnUrl
+  };
+
+  const config = await resolveGatewayConfig(
+    transaction.gateway,
+    findMerchantGateway(transaction.merchant.merchant_gateways, transaction.gateway.id)
+  );
+
+  const result = await confirmPayment(transaction.gateway.provider, confirmRequest, config);
+
+  // A rejected confirmation leaves the transaction for the gateway webhook to settle
+  if (!result.success) {
+    throw new Error(result.error?.message || result.error_message || "Confirmation failed");
+  }
+
+  // 3. Link the gateway's payment id to the transaction in place of the checkout id
+  const status = getTransactionStatus(result.status);
+  const gatewayTransactionId = result.gateway_transaction_id || transaction.gateway_transaction_id;
+
+  // Leave the transaction alone if a webhook settled it in the meantime
+  await transitionTransaction(
+    hasura,
+    transaction.id,
+    CONFIRMABLE_STATUSES,
+    status,
+    { performed_by: "confirm" },
+    {
+      gateway_transaction_id: gatewayTransactionId,
+      gateway_response: result.gateway_response
+    }
+  );
+
+  return {
+    success: true,
+    message: status === "processing"
+      ? "Payment is awaiting gateway settlement"
+      : "Payment confirmed successfully",
+    status,
+    gatewayTransactionId,
+    redirectUrl: result.redirect_url,
+    nextAction: result.next_action
+  };
+}
+
+const CONFIRMABLE_STATUSES = ["pending", "processing"];
+
+function getTransactionStatus(gatewayStatus: string): TransactionStatus {
+  switch (gatewayStatus) {
+    case "authorized":
+      return "authorized";
+    case "pending":
+    case "processing":
+      return "processing";
+    default:
+      return "success";
+  }
+}
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,189 @@
+// Credential Vault - envelope encryption for gateway credentials at rest
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// Stored in place of the plaintext credentials JSONB
+export type EncryptedCredentials = {
+  __encrypted: typeof ALGORITHM;
+  key_id: string; // Master key the data key is wrapped with
+  wrapped_key: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+// Wraps per-record data keys with a master key; a KMS client can implement this directly
+export interface KeyProvider {
+  getCurrentKeyId(): string;
+  wrapDataKey(dataKey: Buffer, keyId: string): Promise<Buffer>;
+  unwrapDataKey(wrappedKey: Buffer, keyId: string): Promise<Buffer>;
+}
+
+export type MasterKeyring = {
+  current: string;
+  keys: Record<string, string>; // key id -> base64 encoded 256-bit key
+};
+
+/**
+ * Master keys from a local keyring file. Rotation adds a key and moves `current`
+ * to it; older keys stay in the file until every record has been re-wrapped.
+ */
+export class LocalKeyProvider implements KeyProvider {
+  constructor(private keyring: MasterKeyring) {
+    if (!keyring.keys[keyring.current]) {
+      throw new Error(`Current master key '${keyring.current}' is missing from the keyring`);
+    }
+  }
+
+  static fromFile(path: string): LocalKeyProvider {
+    return new LocalKeyProvider(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  getCurrentKeyId(): string {
+    return this.keyring.current;
+  }
+
+  async wrapDataKey(dataKey: Buffer, keyId: string): Promise<Buffer> {
+    const sealed = seal(dataKey, this.getMasterKey(keyId));
+    return Buffer.concat([sealed.iv, sealed.tag, sealed.ciphertext]);
+  }
+
+  async unwrapDataKey(wrappedKey: Buffer, keyId: string): Promise<Buffer> {
+    return open(
+      wrappedKey.subarray(IV_LENGTH + 16),
+      this.getMasterKey(keyId),
+      wrappedKey.subarray(0, IV_LENGTH),
+      wrappedKey.subarray(IV_LENGTH, IV_LENGTH + 16)
+    );
+  }
+
+  private getMasterKey(keyId: string): Buffer {
+    const key = this.keyring.keys[keyId];
+
+    if (!key) {
+      throw new Error(`Unknown master key '${keyId}'`);
+    }
+
+    return Buffer.from(key, 'base64');
+  }
+}
+
+let keyProvider: KeyProvider | null = null;
+
+// Lets a deployment plug in a KMS-backed provider instead of the key file
+export function setKeyProvider(provider: KeyProvider): void {
+  keyProvider = provider;
+}
+
+export function getKeyProvider(): KeyProvider | null {
+  if (!keyProvider && process.env.NAVIPE_MASTER_KEY_FILE) {
+    keyProvider = LocalKeyProvider.fromFile(process.env.NAVIPE_MASTER_KEY_FILE);
+  }
+  return keyProvider;
+}
+
+export function isEncrypted(credentials: any): credentials is EncryptedCredentials {
+  return credentials?.__encrypted === ALGORITHM;
+}
+
+export async function encryptCredentials(
+  credentials: Record<string, any>,
+  provider: KeyProvider = requireKeyProvider()
+): Promise<EncryptedCredentials> {
+  const keyId = provider.getCurrentKeyId();
+  const dataKey = crypto.randomBytes(32);
+  const sealed = seal(Buffer.from(JSON.stringify(credentials), 'utf8'), dataKey);
+  const wrappedKey = await provider.wrapDataKey(dataKey, keyId);
+
+  return {
+    __encrypted: ALGORITHM,
+    key_id: keyId,
+    wrapped_key: wrappedKey.toString('base64'),
+    iv: sealed.iv.toString('base64'),
+    tag: sealed.tag.toString('base64'),
+    ciphertext: sealed.ciphertext.toString('base64')
+  };
+}
+
+/**
+ * Decrypt stored credentials for a gateway call. Rows not yet sealed by the
+ * rotation job are returned as-is so encryption can be rolled out gradually.
+ */
+export async function decryptCredentials(
+  credentials: any,
+  provider?: KeyProvider
+): Promise<Record<string, any>> {
+  if (!isEncrypted(credentials)) {
+    return credentials || {};
+  }
+
+  // Resolved only here so plaintext rows never need the master key file
+  const resolvedProvider = provider ?? getKeyProvider();
+  if (!resolvedProvider) {
+    throw new Error("Gateway credentials are encrypted but no master key is configured");
+  }
+
+  const dataKey = await resolvedProvider.unwrapDataKey(
+    Buffer.from(credentials.wrapped_key, 'base64'),
+    credentials.key_id
+  );
+
+  const plaintext = open(
+    Buffer.from(credentials.ciphertext, 'base64'),
+    dataKey,
+    Buffer.from(credentials.iv, 'base64'),
+    Buffer.from(credentials.tag, 'base64')
+  );
+
+  return JSON.parse(plaintext.toString('utf8'));
+}
+
+// Re-wraps the data key under the current master key; the ciphertext is unchanged
+export async function rewrapCredentials(
+  credentials: EncryptedCredentials,
+  provider: KeyProvider = requireKeyProvider()
+): Promise<EncryptedCredentials> {
+  const keyId = provider.getCurrentKeyId();
+
+  if (credentials.key_id === keyId) {
+    return credentials;
+  }
+
+  const dataKey = await provider.unwrapDataKey(
+    Buffer.from(credentials.wrapped_key, 'base64'),
+    credentials.key_id
+  );
+  const wrappedKey = await provider.wrapDataKey(dataKey, keyId);
+
+  return {
+    ...credentials,
+    key_id: keyId,
+    wrapped_key: wrappedKey.toString('base64')
+  };
+}
+
+function requireKeyProvider(): KeyProvider {
+  const provider = getKeyProvider();
+
+  if (!provider) {
+    throw new Error("No master key configured; set NAVIPE_MASTER_KEY_FILE or call setKeyProvider");
+  }
+
+  return provider;
+}
+
+function seal(plaintext: Buffer, key: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(ciphertext: Buffer, key: Buffer, iv: Buffer, tag: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
\ No newline at end of file
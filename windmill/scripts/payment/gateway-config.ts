@@ -0,0 +1,59 @@
+// Gateway Configuration Resolution
+import { GatewayConfig } from '@navipe/interfaces';
+import { decryptCredentials, isEncrypted } from './credential-vault.ts';
+
+export type GatewayDefaults = {
+  id?: string;
+  gateway_code: string;
+  credentials: Record<string, any>;
+  features?: Record<string, any>;
+};
+
+export type MerchantGatewayOverrides = {
+  gateway_id?: string;
+  credentials?: Record<string, any> | null;
+  features?: Record<string, any> | null;
+};
+
+/**
+ * Build the config a gateway call runs with. Merchant-level credentials and
+ * features (e.g. a marketplace seller's own keys or webhook_secret) win over the
+ * platform defaults stored on payment_gateways. Credentials are decrypted here,
+ * immediately before the call, and never written back.
+ */
+export async function resolveGatewayConfig(
+  gateway: GatewayDefaults,
+  merchantGateway?: MerchantGatewayOverrides | null
+): Promise<GatewayConfig> {
+  const credentials = {
+    ...await decryptCredentials(gateway.credentials),
+    ...await decryptCredentials(merchantGateway?.credentials)
+  };
+
+  const features = {
+    ...gateway.features,
+    ...merchantGateway?.features
+  };
+
+  return {
+    gateway_code: gateway.gateway_code,
+    credentials,
+    features,
+    webhook_secret: features.webhook_secret
+  };
+}
+
+// Whether resolveGatewayConfig runs the merchant on its own gateway account rather than the
+// platform's; empty credentials ({}) fall through to the platform keys
+export function hasOwnCredentials(merchantGateway?: MerchantGatewayOverrides | null): boolean {
+  const credentials = merchantGateway?.credentials;
+  return isEncrypted(credentials) || Object.keys(credentials || {}).length > 0;
+}
+
+// Picks the merchant's configuration for the gateway that handled a transaction
+export function findMerchantGateway<T extends MerchantGatewayOverrides>(
+  merchantGateways: T[] | undefined,
+  gatewayId: string
+): T | undefined {
+  return merchantGateways?.find(mg => mg.gateway_id === gatewayId);
+}
\ No newline at end of file
@@ -6,9 +6,15 @@ import {
   PaymentResponse, 
   RefundRequest, 
   RefundResponse,
+  CaptureRequest,
+  ConfirmPaymentRequest,
   GatewayConfig,
   WebhookVerificationRequest,
-  WebhookEvent
+  WebhookEvent,
+  DateRange,
+  SettlementRecord,
+  StandardErrorCodes,
+  createGatewayError
 } from '@navipe/interfaces';
 
 /**
@@ -26,7 +32,10 @@ export async function processPayment(
       success: false,
       transaction_id: request.merchant_reference || 'unknown',
       status: 'failed',
-      error_message: `Gateway '${gatewayCode}' is not available`
+      error_message: StandardErrorCodes.INVALID_REQUEST,
+      error: createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+        message: `Gateway '${gatewayCode}' is not available`
+      })
     };
   }
 
@@ -37,7 +46,158 @@ export async function processPayment(
       success: false,
       transaction_id: request.merchant_reference || 'unknown',
       status: 'failed',
-      error_message: `Payment processing failed: ${error.message}`
+      error_message: StandardErrorCodes.UNKNOWN_ERROR,
+      error: createGatewayError(StandardErrorCodes.UNKNOWN_ERROR, {
+        message: `Payment processing failed: ${error.message}`
+      })
+    };
+  }
+}
+
+/**
+ * Authorize a payment without capturing it using the specified gateway
+ */
+export async function authorizePayment(
+  gatewayCode: string,
+  request: PaymentRequest,
+  config: GatewayConfig
+): Promise<PaymentResponse> {
+  const gateway = gatewayFactory.createGateway(gatewayCode);
+  
+  if (!gateway) {
+    return {
+      success: false,
+      transaction_id: request.merchant_reference || 'unknown',
+      status: 'failed',
+      error_message: StandardErrorCodes.INVALID_REQUEST,
+      error: createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+        message: `Gateway '${gatewayCode}' is not available`
+      })
+    };
+  }
+
+  try {
+    return await gateway.authorizePayment(request, config);
+  } catch (error) {
+    return {
+      success: false,
+      transaction_id: request.merchant_reference || 'unknown',
+      status: 'failed',
+      error_message: StandardErrorCodes.UNKNOWN_ERROR,
+      error: createGatewayError(StandardErrorCodes.UNKNOWN_ERROR, {
+        message: `Payment authorization failed: ${error.message}`
+      })
+    };
+  }
+}
+
+/**
+ * Capture a previously authorized payment using the specified gateway
+ */
+export async function capturePayment(
+  gatewayCode: string,
+  request: CaptureRequest,
+  config: GatewayConfig
+): Promise<PaymentResponse> {
+  const gateway = gatewayFactory.createGateway(gatewayCode);
+  
+  if (!gateway) {
+    return {
+      success: false,
+      transaction_id: request.gateway_transaction_id,
+      status: 'failed',
+      error_message: StandardErrorCodes.INVALID_REQUEST,
+      error: createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+        message: `Gateway '${gatewayCode}' is not available`
+      })
+    };
+  }
+
+  try {
+    return await gateway.capturePayment(request, config);
+  } catch (error) {
+    return {
+      success: false,
+      transaction_id: request.gateway_transaction_id,
+      status: 'failed',
+      error_message: StandardErrorCodes.UNKNOWN_ERROR,
+      error: createGatewayError(StandardErrorCodes.UNKNOWN_ERROR, {
+        message: `Payment capture failed: ${error.message}`
+      })
+    };
+  }
+}
+
+/**
+ * Void a previously authorized payment using the specified gateway
+ */
+export async function voidAuthorization(
+  gatewayCode: string,
+  gatewayTransactionId: string,
+  config: GatewayConfig
+): Promise<PaymentResponse> {
+  const gateway = gatewayFactory.createGateway(gatewayCode);
+  
+  if (!gateway) {
+    return {
+      success: false,
+      transaction_id: gatewayTransactionId,
+      status: 'failed',
+      error_message: StandardErrorCodes.INVALID_REQUEST,
+      error: createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+        message: `Gateway '${gatewayCode}' is not available`
+      })
+    };
+  }
+
+  try {
+    return await gateway.voidAuthorization(gatewayTransactionId, config);
+  } catch (error) {
+    return {
+      success: false,
+      transaction_id: gatewayTransactionId,
+      status: 'failed',
+      error_message: StandardErrorCodes.UNKNOWN_ERROR,
+      error: createGatewayError(StandardErrorCodes.UNKNOWN_ERROR, {
+        message: `Void failed: ${error.message}`
+      })
+    };
+  }
+}
+
+/**
+ * Confirm a payment once the customer completes the gateway checkout
+ */
+export async function confirmPayment(
+  gatewayCode: string,
+  request: ConfirmPaymentRequest,
+  config: GatewayConfig
+): Promise<PaymentResponse> {
+  const gateway = gatewayFactory.createGateway(gatewayCode);
+  
+  if (!gateway) {
+    return {
+      success: false,
+      transaction_id: request.merchant_reference || request.gateway_transaction_id,
+      status: 'failed',
+      error_message: StandardErrorCodes.INVALID_REQUEST,
+      error: createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+        message: `Gateway '${gatewayCode}' is not available`
+      })
+    };
+  }
+
+  try {
+    return await gateway.confirmPayment(request, config);
+  } catch (error) {
+    return {
+      success: false,
+      transaction_id: request.merchant_reference || request.gateway_transaction_id,
+      status: 'failed',
+      error_message: StandardErrorCodes.UNKNOWN_ERROR,
+      error: createGatewayError(StandardErrorCodes.UNKNOWN_ERROR, {
+        message: `Payment confirmation failed: ${error.message}`
+      })
     };
   }
 }
@@ -59,7 +219,10 @@ export async function processRefund(
       gateway_refund_id: '',
       refunded_amount: 0,
       status: 'failed',
-      error_message: `Gateway '${gatewayCode}' is not available`
+      error_message: StandardErrorCodes.INVALID_REQUEST,
+      error: createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+        message: `Gateway '${gatewayCode}' is not available`
+      })
     };
   }
 
@@ -72,7 +235,10 @@ export async function processRefund(
       gateway_refund_id: '',
       refunded_amount: 0,
       status: 'failed',
-      error_message: `Refund processing failed: ${error.message}`
+      error_message: StandardErrorCodes.UNKNOWN_ERROR,
+      error: createGatewayError(StandardErrorCodes.UNKNOWN_ERROR, {
+        message: `Refund processing failed: ${error.message}`
+      })
     };
   }
 }
@@ -92,7 +258,10 @@ export async function checkTransactionStatus(
       success: false,
       transaction_id: gatewayTransactionId,
       status: 'failed',
-      error_message: `Gateway '${gatewayCode}' is not available`
+      error_message: StandardErrorCodes.INVALID_REQUEST,
+      error: createGatewayError(StandardErrorCodes.INVALID_REQUEST, {
+        message: `Gateway '${gatewayCode}' is not available`
+      })
     };
   }
 
@@ -103,7 +272,10 @@ export async function checkTransactionStatus(
       success: false,
       transaction_id: gatewayTransactionId,
       status: 'failed',
-      error_message: `Status check failed: ${error.message}`
+      error_message: StandardErrorCodes.UNKNOWN_ERROR,
+      error: createGatewayError(StandardErrorCodes.UNKNOWN_ERROR, {
+        message: `Status check failed: ${error.message}`
+      })
     };
   }
 }
@@ -154,6 +326,24 @@ export async function parseWebhookEvent(
   }
 }
 
+/**
+ * List settled payments, refunds and adjustments using the specified gateway.
+ * Errors are thrown so a reconciliation run never mistakes a failed fetch for an empty period.
+ */
+export async function listSettlements(
+  gatewayCode: string,
+  range: DateRange,
+  config: GatewayConfig
+): Promise<SettlementRecord[]> {
+  const gateway = gatewayFactory.createGateway(gatewayCode);
+
+  if (!gateway) {
+    throw new Error(`Gateway '${gatewayCode}' is not available`);
+  }
+
+  return gateway.listSettlements(range, config);
+}
+
 /**
  * Get list of available payment gateways
  */
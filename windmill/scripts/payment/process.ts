@@ -1,12 +1,27 @@
 // Payment Processing Workflow
 import { gatewayFactory } from '@navipe/factory';
-import { PaymentRequest, GatewayConfig } from '@navipe/interfaces';
+import {
+  PaymentRequest,
+  GatewayError,
+  StandardErrorCodes,
+  createGatewayError
+} from '@navipe/interfaces';
+import { rankGateways, RoutingDecision, RoutingStrategy } from './routing-engine.ts';
+import { transitionTransaction, TransactionStatus } from './transaction-state.ts';
+import { resolveGatewayConfig, hasOwnCredentials } from './gateway-config.ts';
+import { getCircuitBreakers, acquireCircuit, recordCircuitResult } from './circuit-breaker.ts';
 
 type TransactionInput = {
   transactionId: string;
-  routingStrategy?: "default" | "failover" | "loadbalance";
+  routingStrategy?: RoutingStrategy;
+  captureMode?: CaptureMode; // "manual" only authorizes; capture later with capture.ts
+  idempotencyKey?: string; // Defaults to the transaction id; each attempt appends its number
+  paymentMethodToken?: string; // Gateway payment method token or id; charged without a client-side step
+  returnUrl?: string; // Where the customer returns after 3DS or a gateway redirect
 };
 
+type CaptureMode = "automatic" | "manual";
+
 // Define resource types for Windmill
 type HasuraResource = {
   endpoint: string;
@@ -18,7 +33,15 @@ type PaymentGateway = {
   gateway_code: string;
   provider: string;
   credentials: any;
+  features?: any;
+};
+
+type MerchantGateway = {
+  gateway: PaymentGateway;
   priority: number;
+  is_active: boolean;
+  credentials?: any; // Merchant's own keys, overriding the gateway's
+  features?: any;
 };
 
 type Transaction = {
@@ -28,20 +51,10 @@ type Transaction = {
   payment_method: string;
   customer_email?: string;
   metadata?: any;
+  status: string;
   merchant: {
     id: string;
-    merchant_gateways: Array<{
-      gateway: PaymentGateway;
-      priority: number;
-      is_active: boolean;
-    }>;
-    routing_rules: Array<{
-      rule_type: string;
-      priority: number;
-      conditions: any;
-      actions: any;
-      is_active: boolean;
-    }>;
+    merchant_gateways: MerchantGateway[];
   };
 };
 
@@ -54,8 +67,15 @@ export async function main(
   transactionId?: string;
   gatewayUsed?: string;
   gatewayTransactionId?: string;
+  status?: string;
+  redirectUrl?: string;
+  nextAction?: any;
   error?: string;
+  gatewayError?: GatewayError; // Why the last gateway attempt failed
 }> {
+  let claimed = false;
+  let lastGatewayError: GatewayError | undefined;
+
   try {
     // 1. Fetch transaction details with merchant config
     const transactionQuery = `
@@ -76,16 +96,12 @@ export async function main(
                 gateway_code
                 provider
                 credentials
+                features
               }
               priority
               is_active
-            }
-            routing_rules(where: {is_active: {_eq: true}}, order_by: {priority: asc}) {
-              rule_type
-              priority
-              conditions
-              actions
-              is_active
+              credentials
+              features
             }
           }
         }
@@ -106,92 +122,219 @@ export async function main(
       throw new Error(`Transaction is already ${transaction.status}`);
     }
 
-    // 2. Update transaction status to processing
-    await updateTransactionStatus(hasura, input.transactionId, "processing");
+    // 2. Claim the transaction; a concurrent or retried job finds it already processing
+    claimed = await transitionTransaction(
+      hasura,
+      input.transactionId,
+      "pending",
+      "processing",
+      TRANSITION_CONTEXT
+    );
 
-    // 3. Determine gateway based on routing rules
-    const selectedGateway = await selectGateway(
+    if (!claimed) {
+      throw new Error("Transaction is already being processed");
+    }
+
+    // 3. Rank gateways through the shared routing engine
+    const strategy = input.routingStrategy || "default";
+    const decisions = await rankGateways(hasura, {
+      id: transaction.id,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      payment_method: transaction.payment_method,
+      customer_email: transaction.customer_email,
+      merchant_id: transaction.merchant.id
+    }, strategy);
+
+    // 4. Process payment, walking the remaining gateways in routing order on failover
+    const candidates = getCandidates(
       transaction,
-      input.routingStrategy || "default"
+      strategy === "failover" ? decisions : decisions.slice(0, 1)
     );
 
-    if (!selectedGateway) {
+    if (candidates.length === 0) {
       throw new Error("No suitable gateway found for this transaction");
     }
 
-    // 4. Process payment with selected gateway
-    const startTime = Date.now();
-    let paymentResult;
+    let lastErrorMessage = "Payment failed";
+    const baseIdempotencyKey = input.idempotencyKey || transaction.id;
+    const circuitBreakers = await getCircuitBreakers(
+      hasura,
+      candidates.map(c => c.merchantGateway.gateway.id),
+      transaction.merchant.id
+    );
 
-    try {
-      paymentResult = await processPaymentThroughGateway(
-        transaction,
-        selectedGateway
+    for (let i = 0; i < candidates.length; i++) {
+      const { merchantGateway, decision } = candidates[i];
+      const attemptNumber = i + 1;
+      const idempotencyKey = `${baseIdempotencyKey}:${attemptNumber}`;
+
+      // The circuit may have opened since routing, or another job holds the half-open probe
+      const permitted = await acquireCircuit(
+        hasura,
+        circuitBreakers,
+        merchantGateway.gateway.id,
+        TRANSITION_CONTEXT.performed_by
       );
-    } catch (error) {
-      // Log failed attempt
-      await logRoutingAttempt(hasura, {
+
+      if (!permitted) {
+        lastErrorMessage = `Circuit open for gateway ${merchantGateway.gateway.gateway_code}`;
+        continue;
+      }
+
+      // Record the attempt before calling the gateway so each key is only ever sent once
+      const attemptId = await claimRoutingAttempt(hasura, {
         transaction_id: input.transactionId,
-        gateway_id: selectedGateway.id,
-        attempt_number: 1,
-        status: "failed",
-        error_message: error.message,
-        processing_time_ms: Date.now() - startTime
+        gateway_id: merchantGateway.gateway.id,
+        attempt_number: attemptNumber,
+        status: "processing",
+        idempotency_key: idempotencyKey,
+        routing_reason: decision.reason,
+        routing_score: decision.score
       });
 
-      // Try failover if enabled
-      if (input.routingStrategy === "failover") {
-        // Implement failover logic here
+      if (!attemptId) {
+        throw new Error(`Payment attempt ${idempotencyKey} has already been made`);
       }
 
-      throw error;
-    }
+      const startTime = Date.now();
+      let paymentResult;
+
+      try {
+        // Gateways time out their own requests; giving up here could fail over while the charge goes through
+        paymentResult = await processPaymentThroughGateway(
+          transaction,
+          merchantGateway,
+          input,
+          idempotencyKey
+        );
+      } catch (error) {
+        paymentResult = {
+          success: false,
+          error_message: StandardErrorCodes.UNKNOWN_ERROR,
+          error: createGatewayError(StandardErrorCodes.UNKNOWN_ERROR, { message: error.message })
+        };
+      }
 
-    // 5. Log successful attempt
-    await logRoutingAttempt(hasura, {
-      transaction_id: input.transactionId,
-      gateway_id: selectedGateway.id,
-      attempt_number: 1,
-      status: "success",
-      processing_time_ms: Date.now() - startTime,
-      response_payload: paymentResult
-    });
+      await recordCircuitResult(
+        hasura,
+        circuitBreakers,
+        merchantGateway.gateway.id,
+        transaction.merchant.id,
+        hasOwnCredentials(merchantGateway),
+        paymentResult.success ? undefined : paymentResult.error?.code,
+        TRANSITION_CONTEXT.performed_by
+      );
 
-    // 6. Update transaction with success
-    await updateTransactionStatus(
-      hasura,
-      input.transactionId,
-      "success",
-      paymentResult.transactionId,
-      paymentResult
-    );
+      if (!paymentResult.success) {
+        // Record failed attempt
+        await completeRoutingAttempt(hasura, attemptId, {
+          status: "failed",
+          error_message: paymentResult.error_message,
+          processing_time_ms: Date.now() - startTime,
+          response_payload: paymentResult.gateway_response
+        });
+
+        lastErrorMessage = paymentResult.error_message || lastErrorMessage;
+        lastGatewayError = paymentResult.error;
+
+        // Declines are final; retrying them elsewhere only repeats the decline
+        if (paymentResult.error && !paymentResult.error.retryable) {
+          break;
+        }
+        continue;
+      }
 
-    return {
-      success: true,
-      message: "Payment processed successfully",
-      transactionId: input.transactionId,
-      gatewayUsed: selectedGateway.gateway_code,
-      gatewayTransactionId: paymentResult.transactionId
-    };
+      // 5. Record successful attempt
+      await completeRoutingAttempt(hasura, attemptId, {
+        status: "success",
+        processing_time_ms: Date.now() - startTime,
+        response_payload: paymentResult
+      });
+
+      // 6. Update transaction with the gateway outcome
+      const status = getTransactionStatus(paymentResult.status);
+
+      const transitioned = await transitionTransaction(
+        hasura,
+        input.transactionId,
+        "processing",
+        status,
+        TRANSITION_CONTEXT,
+        {
+          gateway_id: merchantGateway.gateway.id,
+          gateway_transaction_id: paymentResult.transactionId,
+          gateway_response: paymentResult
+        }
+      );
+
+      // A webhook may have settled the transaction first; report what it recorded
+      if (!transitioned) {
+        const currentStatus = await fetchTransactionStatus(hasura, input.transactionId);
+        return {
+          success: currentStatus !== "failed",
+          message: `Payment was already settled as ${currentStatus}`,
+          transactionId: input.transactionId,
+          gatewayUsed: merchantGateway.gateway.gateway_code,
+          gatewayTransactionId: paymentResult.transactionId,
+          status: currentStatus
+        };
+      }
+
+      return {
+        success: true,
+        message: status === "authorized"
+          ? "Payment authorized successfully"
+          : "Payment processed successfully",
+        transactionId: input.transactionId,
+        gatewayUsed: merchantGateway.gateway.gateway_code,
+        gatewayTransactionId: paymentResult.transactionId,
+        status,
+        redirectUrl: paymentResult.redirect_url,
+        nextAction: paymentResult.next_action
+      };
+    }
+
+    throw new Error(lastErrorMessage);
 
   } catch (error) {
-    // Update transaction status to failed
-    await updateTransactionStatus(
-      hasura,
-      input.transactionId,
-      "failed",
-      null,
-      { error: error.message }
-    );
+    // Update transaction status to failed, unless another job owns it
+    if (claimed) {
+      await transitionTransaction(
+        hasura,
+        input.transactionId,
+        "processing",
+        "failed",
+        { ...TRANSITION_CONTEXT, reason: error.message },
+        { gateway_response: { error: error.message, gateway_error: lastGatewayError } }
+      );
+    }
 
     return {
       success: false,
       message: "Payment processing failed",
-      error: error.message
+      error: error.message,
+      gatewayError: lastGatewayError
     };
   }
 }
 
+async function fetchTransactionStatus(
+  hasura: HasuraResource,
+  transactionId: string
+): Promise<string> {
+  const query = `
+    query GetTransactionStatus($id: uuid!) {
+      transactions_by_pk(id: $id) {
+        status
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, query, { id: transactionId });
+  return data.transactions_by_pk.status;
+}
+
 async function makeHasuraRequest(
   hasura: HasuraResource,
   query: string,
@@ -209,120 +352,74 @@ async function makeHasuraRequest(
   return response.json();
 }
 
-async function updateTransactionStatus(
-  hasura: HasuraResource,
-  transactionId: string,
-  status: string,
-  gatewayTransactionId?: string,
-  gatewayResponse?: any
-) {
-  const mutation = `
-    mutation UpdateTransactionStatus(
-      $id: uuid!,
-      $status: transaction_status!,
-      $gateway_transaction_id: String,
-      $gateway_response: jsonb
-    ) {
-      update_transactions_by_pk(
-        pk_columns: {id: $id},
-        _set: {
-          status: $status,
-          gateway_transaction_id: $gateway_transaction_id,
-          gateway_response: $gateway_response
-        }
-      ) {
-        id
-      }
-    }
-  `;
-
-  await makeHasuraRequest(hasura, mutation, {
-    id: transactionId,
-    status,
-    gateway_transaction_id: gatewayTransactionId,
-    gateway_response: gatewayResponse
+function getCandidates(
+  transaction: Transaction,
+  decisions: RoutingDecision[]
+): Array<{ merchantGateway: MerchantGateway; decision: RoutingDecision }> {
+  return decisions.flatMap(decision => {
+    const merchantGateway = transaction.merchant.merchant_gateways.find(
+      mg => mg.gateway.id === decision.gateway_id
+    );
+    return merchantGateway ? [{ merchantGateway, decision }] : [];
   });
 }
 
-async function selectGateway(
-  transaction: Transaction,
-  strategy: string
-): Promise<PaymentGateway | null> {
-  // Apply routing rules
-  for (const rule of transaction.merchant.routing_rules) {
-    if (evaluateRule(rule, transaction)) {
-      const gateway = applyRuleAction(
-        rule,
-        transaction.merchant.merchant_gateways
-      );
-      if (gateway) return gateway.gateway;
-    }
+const TRANSITION_CONTEXT = { performed_by: "process" };
+
+function getTransactionStatus(gatewayStatus: string): TransactionStatus {
+  switch (gatewayStatus) {
+    case "authorized":
+      return "authorized";
+    case "pending":
+    case "processing":
+      // Awaiting customer action or gateway settlement; webhooks finish the transition
+      return "processing";
+    default:
+      return "success";
   }
-
-  // Default: use priority
-  const sortedGateways = [...transaction.merchant.merchant_gateways]
-    .sort((a, b) => a.priority - b.priority);
-
-  return sortedGateways[0]?.gateway || null;
 }
 
-function evaluateRule(rule: any, transaction: Transaction): boolean {
-  const conditions = rule.conditions;
-
-  switch (rule.rule_type) {
-    case "amount":
-      if (conditions.amount) {
-        const amount = transaction.amount;
-        if (conditions.amount.min && amount < conditions.amount.min) return false;
-        if (conditions.amount.max && amount > conditions.amount.max) return false;
-      }
-      break;
-
-    case "method_based":
-      if (conditions.payment_method) {
-        return transaction.payment_method === conditions.payment_method;
+async function claimRoutingAttempt(hasura: HasuraResource, attempt: any): Promise<string | null> {
+  const mutation = `
+    mutation CreateRoutingAttempt($object: routing_attempts_insert_input!) {
+      insert_routing_attempts_one(object: $object) {
+        id
       }
-      break;
-
-    case "gateway_priority":
-      return true; // Always applies
-  }
-
-  return true;
-}
+    }
+  `;
 
-function applyRuleAction(rule: any, merchantGateways: any[]): any {
-  const actions = rule.actions;
+  const response = await makeHasuraRequest(hasura, mutation, { object: attempt });
 
-  if (actions.preferred_gateway) {
-    return merchantGateways.find(
-      mg => mg.gateway.gateway_code === actions.preferred_gateway
-    );
+  // routing_attempts_idempotency_key_key rejects a key that was already used
+  if (response.errors?.some(error => error.extensions?.code === "constraint-violation")) {
+    return null;
   }
 
-  if (actions.use_priority) {
-    return merchantGateways.sort((a, b) => a.priority - b.priority)[0];
+  if (response.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(response.errors)}`);
   }
 
-  return null;
+  return response.data.insert_routing_attempts_one.id;
 }
 
-async function logRoutingAttempt(hasura: HasuraResource, attempt: any) {
+async function completeRoutingAttempt(hasura: HasuraResource, attemptId: string, outcome: any) {
   const mutation = `
-    mutation CreateRoutingAttempt($object: routing_attempts_insert_input!) {
-      insert_routing_attempts_one(object: $object) {
+    mutation CompleteRoutingAttempt($id: uuid!, $outcome: routing_attempts_set_input!) {
+      update_routing_attempts_by_pk(pk_columns: {id: $id}, _set: $outcome) {
         id
       }
     }
   `;
 
-  await makeHasuraRequest(hasura, mutation, { object: attempt });
+  await makeHasuraRequest(hasura, mutation, { id: attemptId, outcome });
 }
 
 // Pluggable gateway processing
 async function processPaymentThroughGateway(
   transaction: Transaction, 
-  gatewayConfig: any
+  gatewayConfig: MerchantGateway,
+  input: TransactionInput,
+  idempotencyKey: string
 ): Promise<any> {
   // Get the appropriate gateway implementation
   const gateway = gatewayFactory.createGateway(gatewayConfig.gateway.provider);
@@ -338,19 +435,19 @@ async function processPaymentThroughGateway(
     payment_method: transaction.payment_method,
     customer_email: transaction.customer_email,
     merchant_reference: transaction.id,
-    metadata: transaction.metadata
+    metadata: transaction.metadata,
+    idempotency_key: idempotencyKey,
+    payment_method_token: input.paymentMethodToken,
+    return_url: input.returnUrl
   };
 
-  // Prepare gateway configuration
-  const config: GatewayConfig = {
-    gateway_code: gatewayConfig.gateway.gateway_code,
-    credentials: gatewayConfig.gateway.credentials,
-    features: gatewayConfig.gateway.features,
-    webhook_secret: gatewayConfig.gateway.webhook_secret
-  };
+  // Prepare gateway configuration, merchant settings over platform defaults
+  const config = await resolveGatewayConfig(gatewayConfig.gateway, gatewayConfig);
 
-  // Process payment through the gateway
-  const result = await gateway.processPayment(paymentRequest, config);
+  // Process payment through the gateway, holding funds only when capture is manual
+  const result = input.captureMode === "manual"
+    ? await gateway.authorizePayment(paymentRequest, config)
+    : await gateway.processPayment(paymentRequest, config);
   
   return {
     transactionId: result.gateway_transaction_id,
@@ -360,6 +457,8 @@ async function processPaymentThroughGateway(
     success: result.success,
     gateway_response: result.gateway_response,
     redirect_url: result.redirect_url,
-    error_message: result.error_message
+    next_action: result.next_action,
+    error_message: result.error_message,
+    error: result.error
   };
 }
\ No newline at end of file
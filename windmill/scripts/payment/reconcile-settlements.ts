@@ -0,0 +1,419 @@
+// Settlement Reconciliation Job
+import { SettlementRecord, roundToCurrency } from '@navipe/interfaces';
+import { listSettlements } from './gateway-integration.ts';
+import { resolveGatewayConfig, hasOwnCredentials, GatewayDefaults } from './gateway-config.ts';
+
+type ReconciliationInput = {
+  gatewayCode?: string;       // Reconcile one gateway; defaults to every active gateway
+  from?: string;              // Period start (ISO); defaults to the start of yesterday (UTC)
+  to?: string;                // Period end, exclusive; defaults to the start of today (UTC)
+  settlementLagDays?: number; // Extra days of gateway data for payments that settle late; defaults to 3
+};
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+type Gateway = GatewayDefaults & {
+  id: string;
+  provider: string;
+};
+
+type Transaction = {
+  id: string;
+  amount: number;
+  captured_amount?: number;
+  currency: string;
+  status: string;
+  fees?: number;
+  gateway_transaction_id: string;
+  created_at: string;
+};
+
+type Discrepancy = {
+  transaction_id?: string;
+  gateway_transaction_id: string;
+  discrepancy_type: "missing" | "amount_mismatch" | "status_mismatch" | "unknown_at_gateway";
+  expected?: Record<string, any>;
+  actual?: Record<string, any>;
+};
+
+type ReportSummary = {
+  gateway_code: string;
+  report_id?: string;
+  settlement_records?: number;
+  matched_transactions?: number;
+  discrepancies?: number;
+  error?: string;
+};
+
+const DEFAULT_SETTLEMENT_LAG_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Transactions that took the customer's money and should appear in the gateway's data
+const SETTLED_STATUSES = ["success", "refunded"];
+
+/**
+ * Reconciles what each gateway settled against transactions for a period and writes a
+ * discrepancy report per gateway. Gateway data is read a few days past the period so
+ * payments that settle late still match. Fees are taken from the gateway for transactions
+ * that have none recorded. Only the platform's own gateway accounts are reconciled;
+ * transactions processed on merchants' own accounts are left out.
+ */
+export async function main(
+  input: ReconciliationInput,
+  hasura: HasuraResource
+): Promise<{
+  success: boolean;
+  reports?: ReportSummary[];
+  error?: string;
+}> {
+  try {
+    const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+    // Normalized so period checks can compare ISO strings
+    const from = new Date(input?.from || today - DAY_MS).toISOString();
+    const to = new Date(input?.to || today).toISOString();
+    const lagMs = (input?.settlementLagDays ?? DEFAULT_SETTLEMENT_LAG_DAYS) * DAY_MS;
+
+    const gateways = await getGateways(hasura, input?.gatewayCode);
+    const reports: ReportSummary[] = [];
+
+    // One gateway failing to report does not stop the others from being reconciled
+    for (const gateway of gateways) {
+      try {
+        reports.push(await reconcileGateway(hasura, gateway, from, to, lagMs));
+      } catch (error) {
+        reports.push({ gateway_code: gateway.gateway_code, error: error.message });
+      }
+    }
+
+    return {
+      success: reports.every(r => !r.error),
+      reports
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+async function reconcileGateway(
+  hasura: HasuraResource,
+  gateway: Gateway,
+  from: string,
+  to: string,
+  lagMs: number
+): Promise<ReportSummary> {
+  const config = await resolveGatewayConfig(gateway);
+  const records = await listSettlements(
+    gateway.provider,
+    { from, to: new Date(Date.parse(to) + lagMs).toISOString() },
+    config
+  );
+
+  // Transactions on a merchant's own gateway account settle to that account, not the platform's
+  const where = platformAccountFilter(gateway.id, await getOwnAccountMerchantIds(hasura, gateway.id));
+
+  // Transactions from the period, plus older ones whose refunds or late settlements show up now
+  const periodTransactions = await getPeriodTransactions(hasura, where, from, to);
+  const transactions = new Map(periodTransactions.map(t => [t.gateway_transaction_id, t]));
+  const unknownIds = [...new Set(records.map(r => r.gateway_transaction_id))].filter(id => !transactions.has(id));
+
+  for (const transaction of await getTransactionsByGatewayIds(hasura, where, unknownIds)) {
+    transactions.set(transaction.gateway_transaction_id, transaction);
+  }
+
+  const recordsByPayment = new Map<string, SettlementRecord[]>();
+  for (const record of records) {
+    recordsByPayment.set(record.gateway_transaction_id, [
+      ...(recordsByPayment.get(record.gateway_transaction_id) || []),
+      record
+    ]);
+  }
+
+  const discrepancies: Discrepancy[] = [];
+  let matched = 0;
+
+  for (const [gatewayTransactionId, paymentRecords] of recordsByPayment) {
+    const transaction = transactions.get(gatewayTransactionId);
+
+    if (!transaction) {
+      // Only movements from the period count; the lag days belong to the next run
+      const inPeriod = paymentRecords.filter(r => r.created_at >= from && r.created_at < to);
+      if (inPeriod.length > 0) {
+        discrepancies.push({
+          gateway_transaction_id: gatewayTransactionId,
+          discrepancy_type: "missing",
+          actual: { records: inPeriod.map(describeRecord) }
+        });
+      }
+      continue;
+    }
+
+    matched++;
+
+    const payment = paymentRecords.find(r => r.type === "payment");
+    if (payment) {
+      discrepancies.push(...compareTransaction(transaction, payment));
+      await ingestFees(hasura, transaction, payment);
+    }
+  }
+
+  for (const transaction of periodTransactions) {
+    const settled = recordsByPayment.get(transaction.gateway_transaction_id)?.some(r => r.type === "payment");
+
+    if (!settled) {
+      discrepancies.push({
+        transaction_id: transaction.id,
+        gateway_transaction_id: transaction.gateway_transaction_id,
+        discrepancy_type: "unknown_at_gateway",
+        expected: describeTransaction(transaction)
+      });
+    }
+  }
+
+  const reportId = await saveReport(hasura, {
+    gateway_id: gateway.id,
+    period_start: from,
+    period_end: to,
+    settlement_records: records.length,
+    matched_transactions: matched,
+    discrepancy_count: discrepancies.length,
+    discrepancies: { data: discrepancies }
+  });
+
+  return {
+    gateway_code: gateway.gateway_code,
+    report_id: reportId,
+    settlement_records: records.length,
+    matched_transactions: matched,
+    discrepancies: discrepancies.length
+  };
+}
+
+function compareTransaction(transaction: Transaction, payment: SettlementRecord): Discrepancy[] {
+  const discrepancies: Discrepancy[] = [];
+  const base = {
+    transaction_id: transaction.id,
+    gateway_transaction_id: transaction.gateway_transaction_id,
+    expected: describeTransaction(transaction),
+    actual: describeRecord(payment)
+  };
+
+  // The gateway holding money for a payment we consider failed is as wrong as the reverse
+  const settledLocally = SETTLED_STATUSES.includes(transaction.status);
+  if (settledLocally !== (payment.status !== "failed")) {
+    discrepancies.push({ ...base, discrepancy_type: "status_mismatch" });
+  }
+
+  // Payments settled in another currency cannot be compared without the exchange rate
+  if (payment.currency?.toUpperCase() !== transaction.currency) {
+    return discrepancies;
+  }
+
+  const currency = transaction.currency;
+  const paidAmount = Number(transaction.captured_amount ?? transaction.amount);
+  const fees = Number(transaction.fees) || 0;
+
+  if (roundToCurrency(payment.amount, currency) !== roundToCurrency(paidAmount, currency) ||
+      (fees > 0 && roundToCurrency(payment.fee, currency) !== roundToCurrency(fees, currency))) {
+    discrepancies.push({ ...base, discrepancy_type: "amount_mismatch" });
+  }
+
+  return discrepancies;
+}
+
+async function ingestFees(
+  hasura: HasuraResource,
+  transaction: Transaction,
+  payment: SettlementRecord
+): Promise<void> {
+  // Recorded fees are compared rather than overwritten
+  if (Number(transaction.fees) > 0 || payment.currency?.toUpperCase() !== transaction.currency) {
+    return;
+  }
+
+  const mutation = `
+    mutation IngestTransactionFees($id: uuid!, $fees: numeric!, $net_amount: numeric!) {
+      update_transactions(
+        where: {id: {_eq: $id}, _or: [{fees: {_eq: 0}}, {fees: {_is_null: true}}]},
+        _set: {fees: $fees, net_amount: $net_amount}
+      ) {
+        affected_rows
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, {
+    id: transaction.id,
+    fees: payment.fee,
+    net_amount: payment.net
+  });
+}
+
+function describeTransaction(transaction: Transaction): Record<string, any> {
+  return {
+    status: transaction.status,
+    amount: Number(transaction.captured_amount ?? transaction.amount),
+    fees: Number(transaction.fees) || 0,
+    currency: transaction.currency,
+    created_at: transaction.created_at
+  };
+}
+
+function describeRecord(record: SettlementRecord): Record<string, any> {
+  return {
+    gateway_reference: record.gateway_reference,
+    type: record.type,
+    status: record.status,
+    amount: record.amount,
+    fee: record.fee,
+    currency: record.currency,
+    settlement_id: record.settlement_id,
+    created_at: record.created_at
+  };
+}
+
+async function getGateways(hasura: HasuraResource, gatewayCode?: string): Promise<Gateway[]> {
+  const query = `
+    query GetGatewaysToReconcile($where: payment_gateways_bool_exp!) {
+      payment_gateways(where: $where) {
+        id
+        gateway_code
+        provider
+        credentials
+        features
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, query, {
+    where: gatewayCode
+      ? { gateway_code: {_eq: gatewayCode} }
+      : { status: {_eq: "active"} }
+  });
+
+  return data.payment_gateways;
+}
+
+// Decided the way resolveGatewayConfig decides it, so empty credentials count as the platform's
+async function getOwnAccountMerchantIds(hasura: HasuraResource, gatewayId: string): Promise<string[]> {
+  const query = `
+    query GetMerchantGatewayCredentials($gateway_id: uuid!) {
+      merchant_gateways(where: {gateway_id: {_eq: $gateway_id}, credentials: {_is_null: false}}) {
+        merchant_id
+        credentials
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, query, { gateway_id: gatewayId });
+
+  return data.merchant_gateways
+    .filter(mg => hasOwnCredentials(mg))
+    .map(mg => mg.merchant_id);
+}
+
+function platformAccountFilter(gatewayId: string, ownAccountMerchantIds: string[]): Record<string, any> {
+  return {
+    gateway_id: {_eq: gatewayId},
+    gateway_transaction_id: {_is_null: false},
+    merchant_id: {_nin: ownAccountMerchantIds}
+  };
+}
+
+async function getPeriodTransactions(
+  hasura: HasuraResource,
+  where: Record<string, any>,
+  from: string,
+  to: string
+): Promise<Transaction[]> {
+  return queryTransactions(hasura, {
+    ...where,
+    created_at: {_gte: from, _lt: to},
+    status: {_in: SETTLED_STATUSES}
+  });
+}
+
+async function getTransactionsByGatewayIds(
+  hasura: HasuraResource,
+  where: Record<string, any>,
+  gatewayTransactionIds: string[]
+): Promise<Transaction[]> {
+  if (gatewayTransactionIds.length === 0) {
+    return [];
+  }
+
+  return queryTransactions(hasura, {
+    ...where,
+    gateway_transaction_id: {_in: gatewayTransactionIds}
+  });
+}
+
+async function queryTransactions(
+  hasura: HasuraResource,
+  where: Record<string, any>
+): Promise<Transaction[]> {
+  const query = `
+    query GetTransactionsToReconcile($where: transactions_bool_exp!) {
+      transactions(where: $where) {
+        id
+        amount
+        captured_amount
+        currency
+        status
+        fees
+        gateway_transaction_id
+        created_at
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, query, { where });
+  return data.transactions;
+}
+
+async function saveReport(hasura: HasuraResource, report: any): Promise<string> {
+  const mutation = `
+    mutation CreateReconciliationReport($object: reconciliation_reports_insert_input!) {
+      insert_reconciliation_reports_one(object: $object) {
+        id
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, mutation, { object: report });
+  return data.insert_reconciliation_reports_one.id;
+}
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,252 @@
+// Refund Processing Workflow
+import { RefundRequest, roundToCurrency } from '@navipe/interfaces';
+import { processRefund } from './gateway-integration.ts';
+import { transitionTransaction } from './transaction-state.ts';
+import { resolveGatewayConfig, findMerchantGateway, MerchantGatewayOverrides } from './gateway-config.ts';
+
+type RefundInput = {
+  transactionId: string;
+  amount?: number; // If not provided, refund the remaining balance
+  reason?: string;
+  idempotencyKey: string; // Chosen by the caller per refund and re-sent when retrying it
+};
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+type RefundRecord = {
+  amount: number;
+  status: 'pending' | 'success' | 'failed';
+};
+
+type Transaction = {
+  id: string;
+  amount: number;
+  captured_amount?: number;
+  currency: string;
+  status: string;
+  gateway_transaction_id?: string;
+  refunds: RefundRecord[];
+  gateway?: {
+    id: string;
+    gateway_code: string;
+    provider: string;
+    credentials: any;
+    features?: any;
+  };
+  merchant: {
+    merchant_gateways: MerchantGatewayOverrides[];
+  };
+};
+
+export async function main(
+  input: RefundInput,
+  hasura: HasuraResource
+): Promise<{
+  success: boolean;
+  message: string;
+  refundId?: string;
+  refundAmount?: number;
+  error?: string;
+}> {
+  try {
+    if (!input.idempotencyKey) {
+      throw new Error("idempotencyKey is required");
+    }
+
+    // 1. Fetch the original transaction and the gateway that processed it
+    const transactionQuery = `
+      query GetTransactionForRefund($id: uuid!) {
+        transactions_by_pk(id: $id) {
+          id
+          amount
+          captured_amount
+          currency
+          status
+          gateway_transaction_id
+          refunds {
+            amount
+            status
+          }
+          gateway {
+            id
+            gateway_code
+            provider
+            credentials
+            features
+          }
+          merchant {
+            merchant_gateways {
+              gateway_id
+              credentials
+              features
+            }
+          }
+        }
+      }
+    `;
+
+    const { data } = await makeHasuraRequest(hasura, transactionQuery, {
+      id: input.transactionId
+    });
+
+    const transaction: Transaction = data.transactions_by_pk;
+
+    if (!transaction) {
+      throw new Error("Transaction not found");
+    }
+
+    if (transaction.status !== "success") {
+      throw new Error(`Transaction is ${transaction.status} and cannot be refunded`);
+    }
+
+    if (!transaction.gateway || !transaction.gateway_transaction_id) {
+      throw new Error("Transaction has no gateway payment to refund");
+    }
+
+    // 2. Check the remaining refundable balance across previous refunds; only captured funds can be returned
+    const paidAmount = Number(transaction.captured_amount ?? transaction.amount);
+    const currency = transaction.currency;
+    const refundedAmount = sumRefunds(transaction.refunds, ["pending", "success"], currency);
+    const remainingAmount = roundToCurrency(paidAmount - refundedAmount, currency);
+    const refundAmount = roundToCurrency(input.amount ?? remainingAmount, currency);
+
+    if (refundAmount <= 0) {
+      throw new Error(
+        remainingAmount <= 0
+          ? "Transaction has already been fully refunded"
+          : "Refund amount must be greater than zero"
+      );
+    }
+
+    if (refundAmount > remainingAmount) {
+      throw new Error(
+        `Refund amount ${refundAmount} exceeds refundable balance ${remainingAmount}`
+      );
+    }
+
+    // 3. Refund through the original gateway
+    const refundRequest: RefundRequest = {
+      original_transaction_id: transaction.gateway_transaction_id,
+      amount: refundAmount,
+      currency,
+      reason: input.reason,
+      metadata: { transaction_id: transaction.id },
+      // A retried refund re-sends the same key, so the gateway returns the original refund
+      idempotency_key: input.idempotencyKey
+    };
+
+    const config = await resolveGatewayConfig(
+      transaction.gateway,
+      findMerchantGateway(transaction.merchant.merchant_gateways, transaction.gateway.id)
+    );
+
+    const result = await processRefund(transaction.gateway.provider, refundRequest, config);
+
+    if (!result.success) {
+      throw new Error(result.error?.message || result.error_message || "Refund failed");
+    }
+
+    // 4. Record the refund; only a fully refunded transaction becomes "refunded"
+    const refund = {
+      transaction_id: transaction.id,
+      gateway_id: transaction.gateway.id,
+      gateway_refund_id: result.gateway_refund_id || result.refund_id,
+      amount: result.refunded_amount || refundAmount,
+      currency: transaction.currency,
+      status: result.status,
+      reason: input.reason,
+      gateway_response: result.gateway_response
+    };
+
+    await recordRefund(hasura, refund);
+
+    const totalRefunded = sumRefunds([...transaction.refunds, refund], ["success"], currency);
+    const fullyRefunded = totalRefunded >= paidAmount;
+
+    if (fullyRefunded) {
+      await transitionTransaction(
+        hasura,
+        transaction.id,
+        "success",
+        "refunded",
+        { performed_by: "refund", reason: input.reason }
+      );
+    }
+
+    return {
+      success: true,
+      message: fullyRefunded
+        ? "Transaction fully refunded"
+        : "Partial refund processed",
+      refundId: refund.gateway_refund_id,
+      refundAmount: refund.amount
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      message: "Refund processing failed",
+      error: error.message
+    };
+  }
+}
+
+function sumRefunds(refunds: RefundRecord[], statuses: string[], currency: string): number {
+  // Pending refunds still hold their share of the refundable balance
+  return roundToCurrency(
+    refunds
+      .filter(r => statuses.includes(r.status))
+      .reduce((sum, r) => sum + Number(r.amount), 0),
+    currency
+  );
+}
+
+async function recordRefund(hasura: HasuraResource, refund: any) {
+  // The gateway's refund webhook may already have recorded this refund
+  const mutation = `
+    mutation RecordRefund($object: refunds_insert_input!) {
+      insert_refunds_one(
+        object: $object,
+        on_conflict: {
+          constraint: refunds_gateway_id_gateway_refund_id_key,
+          update_columns: [status, amount, reason, gateway_response]
+        }
+      ) {
+        id
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, { object: refund });
+}
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,170 @@
+// Credential Rotation Job
+import {
+  encryptCredentials,
+  rewrapCredentials,
+  isEncrypted,
+  getKeyProvider
+} from './credential-vault.ts';
+
+type RotationInput = {
+  dryRun?: boolean;
+};
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+type RotationSummary = {
+  table: string;
+  sealed: number;   // Plaintext credentials encrypted for the first time
+  rewrapped: number; // Data keys moved to the current master key
+  unchanged: number;
+  skipped: number;  // Changed by someone else mid-run; picked up on the next run
+};
+
+// Tables whose credentials column is kept under envelope encryption
+const CREDENTIAL_TABLES = ["payment_gateways", "merchant_gateways"];
+
+/**
+ * Seals plaintext credentials and re-wraps data keys under the current master key.
+ * Safe to run while payments flow: readers decrypt with whichever key id a row
+ * carries, so retire an old master key only after a run reports nothing left on it.
+ */
+export async function main(
+  input: RotationInput,
+  hasura: HasuraResource
+): Promise<{
+  success: boolean;
+  keyId?: string;
+  tables?: RotationSummary[];
+  error?: string;
+}> {
+  try {
+    const provider = getKeyProvider();
+
+    if (!provider) {
+      throw new Error("No master key configured; set NAVIPE_MASTER_KEY_FILE");
+    }
+
+    const tables: RotationSummary[] = [];
+
+    for (const table of CREDENTIAL_TABLES) {
+      tables.push(await rotateTable(hasura, table, input.dryRun === true));
+    }
+
+    return {
+      success: true,
+      keyId: provider.getCurrentKeyId(),
+      tables
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+async function rotateTable(
+  hasura: HasuraResource,
+  table: string,
+  dryRun: boolean
+): Promise<RotationSummary> {
+  const summary: RotationSummary = { table, sealed: 0, rewrapped: 0, unchanged: 0, skipped: 0 };
+  const currentKeyId = getKeyProvider().getCurrentKeyId();
+
+  const query = `
+    query GetCredentials {
+      ${table}(where: {credentials: {_is_null: false}}) {
+        id
+        credentials
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, query, {});
+
+  for (const row of data[table]) {
+    let next;
+
+    if (!isEncrypted(row.credentials)) {
+      if (Object.keys(row.credentials).length === 0) {
+        summary.unchanged++;
+        continue;
+      }
+      next = await encryptCredentials(row.credentials);
+      summary.sealed++;
+    } else if (row.credentials.key_id !== currentKeyId) {
+      next = await rewrapCredentials(row.credentials);
+      summary.rewrapped++;
+    } else {
+      summary.unchanged++;
+      continue;
+    }
+
+    if (dryRun) {
+      continue;
+    }
+
+    const updated = await replaceCredentials(hasura, table, row.id, row.credentials, next);
+
+    if (!updated) {
+      summary.skipped++;
+    }
+  }
+
+  return summary;
+}
+
+async function replaceCredentials(
+  hasura: HasuraResource,
+  table: string,
+  id: string,
+  previous: any,
+  next: any
+): Promise<boolean> {
+  // Only replace what was read, so credentials edited during the run are not overwritten
+  const mutation = `
+    mutation ReplaceCredentials($id: uuid!, $previous: jsonb!, $next: jsonb!) {
+      update_${table}(
+        where: {id: {_eq: $id}, credentials: {_eq: $previous}},
+        _set: {credentials: $next}
+      ) {
+        affected_rows
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, mutation, { id, previous, next });
+  return data[`update_${table}`].affected_rows > 0;
+}
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
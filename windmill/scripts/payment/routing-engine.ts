@@ -1,12 +1,25 @@
 // Advanced Routing Engine for Payment Processing
+import crypto from 'crypto';
+import { getCircuitBreakers, isCircuitAvailable } from './circuit-breaker.ts';
 
-type RoutingDecision = {
+export type RoutingDecision = {
   gateway_id: string;
   gateway_code: string;
   reason: string;
   score: number;
 };
 
+export type RoutingStrategy = "default" | "failover" | "loadbalance";
+
+export type RoutingTransaction = {
+  id?: string;
+  amount: number;
+  currency: string;
+  payment_method: string;
+  merchant_id: string;
+  customer_email?: string;
+};
+
 type GatewayHealth = {
   gateway_id: string;
   success_rate: number;
@@ -14,20 +27,45 @@ type GatewayHealth = {
   is_healthy: boolean;
 };
 
+type AvailableGateway = {
+  gateway_id: string;
+  gateway_code: string;
+  priority: number;
+  fee_percentage: number;
+  fee_fixed: number;
+};
+
+type ScoredGateway = AvailableGateway & {
+  score: number;
+  reasons: string[];
+};
+
 type HasuraResource = {
   endpoint: string;
   admin_secret: string;
 };
 
+// Rule types whose actions.distribution splits traffic across gateways
+const SPLIT_RULE_TYPES = ["percentage", "volume"];
+
 export async function main(
-  transaction: {
-    amount: number;
-    currency: string;
-    payment_method: string;
-    merchant_id: string;
-  },
-  hasura: HasuraResource
+  transaction: RoutingTransaction,
+  hasura: HasuraResource,
+  strategy: RoutingStrategy = "default"
 ): Promise<RoutingDecision> {
+  const decisions = await rankGateways(hasura, transaction, strategy);
+  return decisions[0];
+}
+
+/**
+ * Rank the merchant's healthy gateways for a transaction, best first.
+ * The payment workflow tries them in this order when failing over.
+ */
+export async function rankGateways(
+  hasura: HasuraResource,
+  transaction: RoutingTransaction,
+  strategy: RoutingStrategy = "default"
+): Promise<RoutingDecision[]> {
   // 1. Get available gateways for merchant
   const availableGateways = await getAvailableGateways(
     hasura,
@@ -46,6 +84,13 @@ export async function main(
     availableGateways.map(g => g.gateway_id)
   );
 
+  // Open circuits react to an outage long before the hourly health average does
+  const circuitBreakers = await getCircuitBreakers(
+    hasura,
+    availableGateways.map(g => g.gateway_id),
+    transaction.merchant_id
+  );
+
   // 3. Apply routing rules
   const routingRules = await getRoutingRules(
     hasura,
@@ -53,7 +98,7 @@ export async function main(
   );
 
   // 4. Calculate scores for each gateway
-  const scoredGateways = availableGateways.map(gateway => {
+  const scoredGateways: ScoredGateway[] = availableGateways.map(gateway => {
     let score = 100; // Base score
     let reasons = [];
 
@@ -96,24 +141,49 @@ export async function main(
     };
   });
 
-  // 5. Select the best gateway
-  const bestGateway = scoredGateways
+  // 5. Rank the healthy gateways whose circuit lets traffic through
+  const rankedGateways = scoredGateways
     .filter(g => {
       const health = healthMetrics.find(h => h.gateway_id === g.gateway_id);
       return !health || health.is_healthy;
     })
-    .sort((a, b) => b.score - a.score)[0];
+    .filter(g => isCircuitAvailable(circuitBreakers, g.gateway_id))
+    .sort((a, b) => b.score - a.score);
 
-  if (!bestGateway) {
+  if (rankedGateways.length === 0) {
     throw new Error("No healthy gateways available");
   }
 
-  return {
-    gateway_id: bestGateway.gateway_id,
-    gateway_code: bestGateway.gateway_code,
-    reason: bestGateway.reasons.join("; "),
-    score: bestGateway.score
-  };
+  // 6. Traffic splits override the score for the first choice
+  const splitRule = routingRules.find(rule =>
+    SPLIT_RULE_TYPES.includes(rule.rule_type) &&
+    evaluateRule(rule, transaction, null)
+  );
+
+  let splitChoice: ScoredGateway | null = null;
+  if (splitRule) {
+    splitChoice = await applySplitRule(hasura, splitRule, transaction, rankedGateways);
+    if (splitChoice) {
+      splitChoice.reasons.push(`Split: ${splitRule.name}`);
+    }
+  } else if (strategy === "loadbalance") {
+    // Load balancing without a split rule: spread evenly over healthy gateways
+    const evenWeights = rankedGateways.map(g => ({ gateway: g, weight: 1 }));
+    splitChoice = pickWeighted(evenWeights, Math.random());
+    splitChoice.reasons.push("Split: even load balancing");
+  }
+
+  if (splitChoice) {
+    rankedGateways.splice(rankedGateways.indexOf(splitChoice), 1);
+    rankedGateways.unshift(splitChoice);
+  }
+
+  return rankedGateways.map(g => ({
+    gateway_id: g.gateway_id,
+    gateway_code: g.gateway_code,
+    reason: g.reasons.join("; "),
+    score: g.score
+  }));
 }
 
 async function getAvailableGateways(
@@ -121,46 +191,49 @@ async function getAvailableGateways(
   merchant_id: string,
   payment_method: string,
   currency: string
-) {
+): Promise<AvailableGateway[]> {
   const query = `
-    query GetAvailableGateways($merchant_id: uuid!, $payment_method: payment_method!, $currency: currency_code!) {
+    query GetAvailableGateways($merchant_id: uuid!) {
       merchant_gateways(
         where: {
           merchant_id: {_eq: $merchant_id},
           is_active: {_eq: true},
           gateway: {
-            status: {_eq: "active"},
-            supported_methods: {_has_key: $payment_method},
-            supported_currencies: {_has_key: $currency}
+            status: {_eq: "active"}
           }
         },
         order_by: {priority: asc}
       ) {
-        gateway_id: gateway_id
-        gateway_code: gateway_code
+        gateway_id
         priority
         fee_percentage
         fee_fixed
         gateway {
           gateway_code
+          supported_methods
+          supported_currencies
         }
       }
     }
   `;
 
   const response = await makeHasuraRequest(hasura, query, {
-    merchant_id,
-    payment_method,
-    currency
+    merchant_id
   });
 
-  return response.data.merchant_gateways.map(mg => ({
-    gateway_id: mg.gateway_id,
-    gateway_code: mg.gateway.gateway_code,
-    priority: mg.priority,
-    fee_percentage: mg.fee_percentage,
-    fee_fixed: mg.fee_fixed
-  }));
+  // Postgres enum arrays can't be filtered by element in Hasura, so match here
+  return response.data.merchant_gateways
+    .filter(mg =>
+      mg.gateway.supported_methods.includes(payment_method) &&
+      mg.gateway.supported_currencies.includes(currency)
+    )
+    .map(mg => ({
+      gateway_id: mg.gateway_id,
+      gateway_code: mg.gateway.gateway_code,
+      priority: mg.priority,
+      fee_percentage: Number(mg.fee_percentage) || 0,
+      fee_fixed: Number(mg.fee_fixed) || 0
+    }));
 }
 
 async function getGatewayHealthMetrics(
@@ -169,40 +242,44 @@ async function getGatewayHealthMetrics(
 ): Promise<GatewayHealth[]> {
   const query = `
     query GetGatewayHealthMetrics($gateway_ids: [uuid!]!, $one_hour_ago: timestamptz!) {
-      gateway_health_metrics_aggregate(
+      gateway_health_metrics(
         where: {
           gateway_id: {_in: $gateway_ids},
-          created_at: {_gt: $one_hour_ago}
+          measurement_period_end: {_gt: $one_hour_ago}
         }
-        group_by: [gateway_id]
       ) {
-        aggregate {
-          avg {
-            success_rate
-            average_response_time_ms
-          }
-        }
-        nodes {
-          gateway_id
-        }
+        gateway_id
+        success_rate
+        average_response_time_ms
+        total_transactions
       }
     }
   `;
 
   const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-  
+
   const response = await makeHasuraRequest(hasura, query, {
     gateway_ids,
     one_hour_ago: oneHourAgo
   });
 
-  return response.data.gateway_health_metrics_aggregate.map(metric => ({
-    gateway_id: metric.nodes[0].gateway_id,
-    success_rate: metric.aggregate.avg.success_rate || 95, // Default if no data
-    average_response_time_ms: metric.aggregate.avg.average_response_time_ms || 1000,
-    is_healthy: (metric.aggregate.avg.success_rate || 95) >= 80 && 
-                (metric.aggregate.avg.average_response_time_ms || 1000) <= 5000
-  }));
+  const metrics = response.data.gateway_health_metrics;
+
+  return gateway_ids
+    .map(gateway_id => metrics.filter(m => m.gateway_id === gateway_id))
+    .filter(rows => rows.length > 0)
+    .map(rows => {
+      // Busy windows count for more than quiet ones
+      const successRate = weightedAverage(rows, r => r.success_rate) ?? 95; // Default if no data
+      const responseTime = weightedAverage(rows, r => r.average_response_time_ms) ?? 1000;
+
+      return {
+        gateway_id: rows[0].gateway_id,
+        success_rate: successRate,
+        average_response_time_ms: responseTime,
+        is_healthy: successRate >= 80 && responseTime <= 5000
+      };
+    });
 }
 
 async function getRoutingRules(
@@ -242,7 +319,7 @@ async function getRoutingRules(
   `;
 
   const now = new Date().toISOString();
-  
+
   const response = await makeHasuraRequest(hasura, query, {
     merchant_id,
     now
@@ -270,7 +347,7 @@ async function makeHasuraRequest(
   }
 
   const result = await response.json();
-  
+
   if (result.errors) {
     throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
   }
@@ -282,6 +359,14 @@ function calculateFee(amount: number, percentage: number, fixed: number): number
   return (amount * percentage) + fixed;
 }
 
+// null when no row has a value, so a real 0 is never mistaken for missing data
+function weightedAverage(rows: any[], value: (row: any) => number | null): number | null {
+  const present = rows.filter(r => value(r) !== null && value(r) !== undefined);
+  const weight = present.reduce((sum, r) => sum + (Number(r.total_transactions) || 1), 0);
+  if (weight === 0) return null;
+  return present.reduce((sum, r) => sum + Number(value(r)) * (Number(r.total_transactions) || 1), 0) / weight;
+}
+
 function evaluateRule(rule: any, transaction: any, gateway: any): boolean {
   const conditions = rule.conditions;
 
@@ -329,10 +414,143 @@ function applyRuleScoreAdjustment(rule: any, gateway: any): number {
     return -50;
   }
 
-  // Distribution-based adjustment
-  if (actions.distribution && actions.distribution[gateway.gateway_code]) {
-    return actions.distribution[gateway.gateway_code];
+  return 0;
+}
+
+type WeightedGateway = {
+  gateway: ScoredGateway;
+  weight: number;
+};
+
+async function applySplitRule(
+  hasura: HasuraResource,
+  rule: any,
+  transaction: RoutingTransaction,
+  gateways: ScoredGateway[]
+): Promise<ScoredGateway | null> {
+  const distribution: Record<string, number> = rule.actions.distribution || {};
+
+  // Gateways in the distribution that are unavailable or unhealthy are skipped
+  const weights = gateways
+    .map(g => ({ gateway: g, weight: Number(distribution[g.gateway_code]) || 0 }))
+    .filter(w => w.weight > 0);
+
+  if (weights.length === 0) return null;
+
+  if (rule.rule_type === "volume") {
+    return pickByVolumeDeficit(hasura, rule, transaction, weights);
+  }
+
+  // Percentage split: weighted random, or sticky per hash key in "hash" mode
+  const position = rule.actions.split_mode === "hash"
+    ? hashToUnitInterval(`${rule.id}:${getHashKey(rule, transaction)}`)
+    : Math.random();
+
+  return pickWeighted(weights, position);
+}
+
+function pickWeighted(weights: WeightedGateway[], position: number): ScoredGateway {
+  const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
+  let threshold = position * totalWeight;
+
+  for (const w of weights) {
+    if (threshold < w.weight) return w.gateway;
+    threshold -= w.weight;
   }
 
-  return 0;
-}
\ No newline at end of file
+  return weights[weights.length - 1].gateway;
+}
+
+function getHashKey(rule: any, transaction: RoutingTransaction): string {
+  // e.g. "customer_email" keeps a customer on the same side of an A/B split
+  const field = rule.actions.hash_key || "id";
+  return String((transaction as Record<string, any>)[field] ?? transaction.id);
+}
+
+function hashToUnitInterval(value: string): number {
+  const digest = crypto.createHash('sha256').update(value).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+async function pickByVolumeDeficit(
+  hasura: HasuraResource,
+  rule: any,
+  transaction: RoutingTransaction,
+  weights: WeightedGateway[]
+): Promise<ScoredGateway> {
+  const windowHours = rule.actions.window_hours || 24;
+  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+
+  const volumes = await Promise.all(
+    weights.map(w => getGatewayVolume(
+      hasura,
+      transaction.merchant_id,
+      w.gateway.gateway_id,
+      transaction.currency,
+      since
+    ))
+  );
+
+  // Route to the gateway furthest below its target share, counting this transaction
+  const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
+  const totalVolume = volumes.reduce((sum, v) => sum + v, 0) + transaction.amount;
+
+  let best = weights[0].gateway;
+  let bestDeficit = -Infinity;
+
+  weights.forEach((w, i) => {
+    const deficit = (w.weight / totalWeight) * totalVolume - volumes[i];
+    if (deficit > bestDeficit) {
+      bestDeficit = deficit;
+      best = w.gateway;
+    }
+  });
+
+  return best;
+}
+
+// Amounts only add up within one currency. Transactions count towards the gateway holding
+// their in-flight or successful attempt, since gateway_id is only set once they finish
+async function getGatewayVolume(
+  hasura: HasuraResource,
+  merchant_id: string,
+  gateway_id: string,
+  currency: string,
+  since: string
+): Promise<number> {
+  const query = `
+    query GetGatewayVolume(
+      $merchant_id: uuid!,
+      $gateway_id: uuid!,
+      $currency: currency_code!,
+      $since: timestamptz!
+    ) {
+      transactions_aggregate(
+        where: {
+          merchant_id: {_eq: $merchant_id},
+          currency: {_eq: $currency},
+          created_at: {_gte: $since},
+          routing_attempts: {
+            gateway_id: {_eq: $gateway_id},
+            status: {_in: ["processing", "success"]}
+          }
+        }
+      ) {
+        aggregate {
+          sum {
+            amount
+          }
+        }
+      }
+    }
+  `;
+
+  const response = await makeHasuraRequest(hasura, query, {
+    merchant_id,
+    gateway_id,
+    currency,
+    since
+  });
+
+  return Number(response.data.transactions_aggregate.aggregate.sum.amount) || 0;
+}
@@ -0,0 +1,157 @@
+// Transaction State Machine
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+export type TransactionStatus =
+  | "pending"
+  | "processing"
+  | "authorized"
+  | "success"
+  | "failed"
+  | "refunded"
+  | "cancelled"
+  | "voided";
+
+// Allowed moves between transaction_status values; anything else is rejected
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  pending: ["processing", "failed", "cancelled"],
+  processing: ["authorized", "success", "failed", "cancelled", "voided"],
+  authorized: ["processing", "success", "failed", "voided"],
+  success: ["refunded"],
+  failed: [],
+  refunded: [],
+  cancelled: [],
+  voided: []
+};
+
+export type TransitionContext = {
+  performed_by: string; // e.g. "process", "webhook:stripe"
+  reason?: string;
+};
+
+export function canTransition(from: string, to: string): boolean {
+  // Staying in the same status only updates the other columns
+  if (from === to) {
+    return from in TRANSACTION_TRANSITIONS;
+  }
+  return TRANSACTION_TRANSITIONS[from as TransactionStatus]?.includes(to as TransactionStatus) ?? false;
+}
+
+/**
+ * Move a transaction from one of `from` to `to`, setting `changes` alongside the status.
+ * The update only applies while the row is still in an expected status, so concurrent
+ * writers cannot both win. Illegal or lost transitions are recorded in audit_logs.
+ */
+export async function transitionTransaction(
+  hasura: HasuraResource,
+  transactionId: string,
+  from: string | string[],
+  to: TransactionStatus,
+  context: TransitionContext,
+  changes: Record<string, any> = {}
+): Promise<boolean> {
+  const expected = (Array.isArray(from) ? from : [from]).filter(status => canTransition(status, to));
+
+  if (expected.length === 0) {
+    await recordRejectedTransition(hasura, transactionId, from, to, context, "Transition not allowed");
+    return false;
+  }
+
+  const mutation = `
+    mutation TransitionTransaction(
+      $id: uuid!,
+      $expected: [transaction_status!]!,
+      $changes: transactions_set_input!
+    ) {
+      update_transactions(
+        where: {id: {_eq: $id}, status: {_in: $expected}},
+        _set: $changes
+      ) {
+        affected_rows
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, mutation, {
+    id: transactionId,
+    expected,
+    changes: { ...changes, status: to }
+  });
+
+  if (data.update_transactions.affected_rows === 0) {
+    await recordRejectedTransition(
+      hasura,
+      transactionId,
+      from,
+      to,
+      context,
+      "Transaction status changed concurrently"
+    );
+    return false;
+  }
+
+  return true;
+}
+
+async function recordRejectedTransition(
+  hasura: HasuraResource,
+  transactionId: string,
+  from: string | string[],
+  to: string,
+  context: TransitionContext,
+  rejection: string
+): Promise<void> {
+  const mutation = `
+    mutation CreateAuditLog($object: audit_logs_insert_input!) {
+      insert_audit_logs_one(object: $object) {
+        id
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, {
+    object: {
+      entity_type: "transaction",
+      entity_id: transactionId,
+      action: "status_transition_rejected",
+      performed_by: context.performed_by,
+      changes: {
+        from,
+        to,
+        rejection,
+        reason: context.reason
+      }
+    }
+  });
+}
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,181 @@
+// Authorization Void Workflow
+import { voidAuthorization } from './gateway-integration.ts';
+import { transitionTransaction } from './transaction-state.ts';
+import { resolveGatewayConfig, findMerchantGateway, MerchantGatewayOverrides } from './gateway-config.ts';
+
+type VoidInput = {
+  transactionId: string;
+  reason?: string;
+};
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+type Transaction = {
+  id: string;
+  status: string;
+  gateway_transaction_id?: string;
+  metadata?: any;
+  gateway?: {
+    id: string;
+    gateway_code: string;
+    provider: string;
+    credentials: any;
+    features?: any;
+  };
+  merchant: {
+    merchant_gateways: MerchantGatewayOverrides[];
+  };
+};
+
+export async function main(
+  input: VoidInput,
+  hasura: HasuraResource
+): Promise<{
+  success: boolean;
+  message: string;
+  error?: string;
+}> {
+  try {
+    // 1. Fetch the authorized transaction and the gateway holding the funds
+    const transactionQuery = `
+      query GetTransactionForVoid($id: uuid!) {
+        transactions_by_pk(id: $id) {
+          id
+          status
+          gateway_transaction_id
+          metadata
+          gateway {
+            id
+            gateway_code
+            provider
+            credentials
+            features
+          }
+          merchant {
+            merchant_gateways {
+              gateway_id
+              credentials
+              features
+            }
+          }
+        }
+      }
+    `;
+
+    const { data } = await makeHasuraRequest(hasura, transactionQuery, {
+      id: input.transactionId
+    });
+
+    const transaction: Transaction = data.transactions_by_pk;
+
+    if (!transaction) {
+      throw new Error("Transaction not found");
+    }
+
+    if (transaction.status !== "authorized") {
+      throw new Error(`Transaction is ${transaction.status} and cannot be voided`);
+    }
+
+    if (!transaction.gateway || !transaction.gateway_transaction_id) {
+      throw new Error("Transaction has no gateway authorization to void");
+    }
+
+    // 2. Release the hold at the authorizing gateway
+    const config = await resolveGatewayConfig(
+      transaction.gateway,
+      findMerchantGateway(transaction.merchant.merchant_gateways, transaction.gateway.id)
+    );
+
+    // Claim the authorization first, so a concurrent capture or void never reaches the gateway
+    const claimed = await transitionTransaction(
+      hasura,
+      transaction.id,
+      "authorized",
+      "processing",
+      TRANSITION_CONTEXT
+    );
+
+    if (!claimed) {
+      throw new Error("Transaction is no longer authorized");
+    }
+
+    const result = await voidAuthorization(
+      transaction.gateway.provider,
+      transaction.gateway_transaction_id,
+      config
+    );
+
+    if (!result.success) {
+      const error = result.error?.message || result.error_message || "Void failed";
+
+      // The hold is still in place, so the authorization can be captured or voided again
+      await transitionTransaction(
+        hasura,
+        transaction.id,
+        "processing",
+        "authorized",
+        { ...TRANSITION_CONTEXT, reason: error }
+      );
+
+      throw new Error(error);
+    }
+
+    // 3. Mark the transaction voided
+    await transitionTransaction(
+      hasura,
+      transaction.id,
+      "processing",
+      "voided",
+      { ...TRANSITION_CONTEXT, reason: input.reason },
+      {
+        gateway_response: result.gateway_response,
+        metadata: { ...transaction.metadata, void_reason: input.reason }
+      }
+    );
+
+    return {
+      success: true,
+      message: "Authorization voided successfully"
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      message: "Authorization void failed",
+      error: error.message
+    };
+  }
+}
+
+const TRANSITION_CONTEXT = { performed_by: "void-authorization" };
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
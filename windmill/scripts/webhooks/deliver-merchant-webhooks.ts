@@ -0,0 +1,103 @@
+// Merchant Webhook Retry Job
+import { deliverMerchantWebhook, DeliveryOutcome } from './merchant-webhooks.ts';
+
+type DeliveryJobInput = {
+  batchSize?: number; // Due deliveries to attempt per run; defaults to 100
+};
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Retries pending merchant webhooks whose backoff has elapsed. Meant to run on a short
+ * schedule; deliveries claimed by another run or an inline attempt are skipped.
+ */
+export async function main(
+  input: DeliveryJobInput,
+  hasura: HasuraResource
+): Promise<{
+  success: boolean;
+  attempted?: number;
+  outcomes?: Record<DeliveryOutcome, number>;
+  error?: string;
+}> {
+  try {
+    const deliveryIds = await getDueDeliveries(hasura, input?.batchSize || DEFAULT_BATCH_SIZE);
+
+    const outcomes: Record<DeliveryOutcome, number> = {
+      delivered: 0,
+      retrying: 0,
+      dead_letter: 0,
+      skipped: 0
+    };
+
+    for (const id of deliveryIds) {
+      outcomes[await deliverMerchantWebhook(hasura, id)]++;
+    }
+
+    return {
+      success: true,
+      attempted: deliveryIds.length,
+      outcomes
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+async function getDueDeliveries(hasura: HasuraResource, limit: number): Promise<string[]> {
+  const query = `
+    query GetDueMerchantWebhooks($now: timestamptz!, $limit: Int!) {
+      merchant_webhook_deliveries(
+        where: {status: {_eq: "pending"}, next_attempt_at: {_lte: $now}},
+        order_by: {next_attempt_at: asc},
+        limit: $limit
+      ) {
+        id
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, query, {
+    now: new Date().toISOString(),
+    limit
+  });
+
+  return data.merchant_webhook_deliveries.map((d: { id: string }) => d.id);
+}
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -1,14 +1,19 @@
 // Gateway Webhook Handler
-import { gatewayFactory } from "../payment/gateway-factory.ts";
-import { WebhookVerificationRequest, GatewayConfig } from "../payment/interfaces.ts";
+import { gatewayFactory } from "@navipe/factory";
+import { WebhookVerificationRequest, WebhookEvent, WebhookEventTypes } from "@navipe/interfaces";
+import { transitionTransaction } from "../payment/transaction-state.ts";
+import { confirmTransaction } from "../payment/confirm.ts";
+import { resolveGatewayConfig } from "../payment/gateway-config.ts";
+import { enqueueMerchantWebhook } from "./merchant-webhooks.ts";
 
 type WebhookPayload = {
   gateway: string;
-  event_type: string;
-  data: any;
+  body?: string; // Raw request body, as signed by the gateway
+  data?: any; // Parsed body, for callers that cannot pass the raw one
+  event_type?: string; // Only used to label webhooks from gateways without an implementation
   signature?: string;
   headers?: Record<string, string>;
-  body?: string;
+  merchant_gateway_id?: string; // Set by per-merchant webhook endpoints
 };
 
 type HasuraResource = {
@@ -16,6 +21,17 @@ type HasuraResource = {
   admin_secret: string;
 };
 
+type VerifiedWebhook = {
+  gateway_id: string;
+  event?: WebhookEvent; // Missing when the gateway has no implementation to parse it
+  unverified_reason?: string; // Set when allow_unverified_webhooks let an unverifiable webhook through
+};
+
+type RejectedWebhook = {
+  gateway_id?: string;
+  rejected: string;
+};
+
 export async function main(
   payload: WebhookPayload,
   hasura: HasuraResource
@@ -25,65 +41,85 @@ export async function main(
   processed: boolean;
 }> {
   try {
-    // 1. Verify webhook signature (gateway-specific)
-    const isValid = await verifyWebhookSignature(payload, hasura);
-    if (!isValid) {
-      throw new Error("Invalid webhook signature");
+    // 1. Verify webhook signature (gateway-specific); rejections are logged for review
+    const verification = await verifyWebhookSignature(payload, hasura);
+    if ("rejected" in verification) {
+      await logRejectedWebhook(hasura, payload, verification);
+      throw new Error(`Webhook rejected: ${verification.rejected}`);
     }
 
-    // 2. Log webhook receipt
+    const verified = verification;
+
+    // 2. Log webhook receipt; a redelivery of an event that is handled or being handled is acknowledged as is
     const webhookId = await logWebhook(hasura, {
       source: "gateway",
-      event_type: payload.event_type,
-      payload: payload.data,
-      gateway_code: payload.gateway
+      gateway_id: verified.gateway_id,
+      external_event_id: verified.event?.event_id,
+      event_type: verified.event?.event_type || payload.event_type || "unknown",
+      payload: verified.event?.data || payload.data,
+      error_message: verified.unverified_reason
     });
 
-    // 3. Process based on event type
+    if (!webhookId) {
+      return {
+        success: true,
+        message: `Duplicate webhook ${verified.event?.event_id} ignored`,
+        processed: false
+      };
+    }
+
+    // 3. Act on the gateway's normalized event
+    const event = verified.event;
     let processed = false;
     let transactionUpdate = null;
 
-    switch (payload.event_type) {
-      case "payment.success":
-      case "payment_capture.completed":
-        transactionUpdate = await handlePaymentSuccess(payload, hasura);
+    switch (event?.event_type) {
+      case WebhookEventTypes.PAYMENT_SUCCESS:
+        transactionUpdate = await handlePaymentSuccess(event, hasura);
         processed = true;
         break;
 
-      case "payment.failed":
-      case "payment_capture.failed":
-        transactionUpdate = await handlePaymentFailure(payload, hasura);
+      case WebhookEventTypes.PAYMENT_APPROVED:
+        await handlePaymentApproved(event, hasura);
         processed = true;
         break;
 
-      case "refund.processed":
-        transactionUpdate = await handleRefundProcessed(payload, hasura);
+      case WebhookEventTypes.PAYMENT_FAILED:
+        transactionUpdate = await handlePaymentFailure(event, hasura);
         processed = true;
         break;
 
-      case "dispute.created":
-        await handleDisputeCreated(payload, hasura);
+      case WebhookEventTypes.REFUND_PROCESSED:
+        transactionUpdate = await handleRefundProcessed(event, verified.gateway_id, hasura);
+        processed = true;
+        break;
+
+      case WebhookEventTypes.DISPUTE_CREATED:
+      case WebhookEventTypes.DISPUTE_UPDATED:
+      case WebhookEventTypes.DISPUTE_CLOSED:
+        await handleDispute(event, payload.gateway, verified.gateway_id, hasura);
         processed = true;
         break;
 
       default:
-        console.log(`Unhandled webhook event type: ${payload.event_type}`);
+        console.log(`Unhandled webhook event type: ${event?.gateway_event_type || payload.event_type}`);
     }
 
     // 4. Update transaction if needed
+    let transactionUpdated = false;
     if (transactionUpdate) {
-      await updateTransaction(hasura, transactionUpdate);
+      transactionUpdated = await updateTransaction(hasura, transactionUpdate, payload.gateway);
     }
 
     // 5. Mark webhook as processed
     await markWebhookProcessed(hasura, webhookId, processed);
 
     // 6. Send notification to merchant if needed
-    if (transactionUpdate && transactionUpdate.notify_merchant) {
+    if (transactionUpdated && transactionUpdate.notify_merchant) {
       await notifyMerchant(
         hasura,
         transactionUpdate.transaction_id,
-        payload.event_type
+        event.event_type
       );
     }
 
@@ -103,22 +139,32 @@ export async function main(
   }
 }
 
+/**
+ * Verify a webhook against its gateway, failing closed: unknown gateways, gateways without an
+ * installed implementation and bad signatures are all rejected. A gateway whose platform
+ * features set allow_unverified_webhooks (meant for local development only) lets the
+ * latter two through, parsed where possible.
+ */
 async function verifyWebhookSignature(
   payload: WebhookPayload, 
   hasura: HasuraResource
-): Promise<boolean> {
+): Promise<VerifiedWebhook | RejectedWebhook> {
   // Get gateway configuration from database
   const gatewayConfig = await getGatewayConfig(hasura, payload.gateway);
   if (!gatewayConfig) {
-    console.warn(`Gateway configuration not found: ${payload.gateway}`);
-    return false;
+    return { rejected: `Gateway configuration not found: ${payload.gateway}` };
   }
 
+  // Only the platform can opt a gateway out of verification, not a merchant's own account
+  const allowUnverified = gatewayConfig.features?.allow_unverified_webhooks === true;
+
   // Get the appropriate gateway implementation
   const gateway = gatewayFactory.createGateway(gatewayConfig.provider);
   if (!gateway) {
-    console.warn(`Unsupported gateway: ${gatewayConfig.provider}`);
-    return true; // Allow processing if gateway not supported
+    const reason = `Unsupported gateway: ${gatewayConfig.provider}`;
+    return allowUnverified
+      ? acceptUnverified(gatewayConfig.id, reason)
+      : { gateway_id: gatewayConfig.id, rejected: reason };
   }
 
   // Prepare webhook verification request
@@ -128,29 +174,62 @@ async function verifyWebhookSignature(
     signature: payload.signature
   };
 
-  // Prepare gateway config
-  const config: GatewayConfig = {
-    gateway_code: gatewayConfig.gateway_code,
-    credentials: gatewayConfig.credentials,
-    webhook_secret: gatewayConfig.webhook_secret
-  };
+  // Merchants with their own gateway account sign webhooks with their own secret
+  let merchantGateway = null;
+  if (payload.merchant_gateway_id) {
+    merchantGateway = await getMerchantGateway(hasura, payload.merchant_gateway_id);
 
+    if (!merchantGateway || merchantGateway.gateway_id !== gatewayConfig.id) {
+      return {
+        gateway_id: gatewayConfig.id,
+        rejected: `Merchant gateway ${payload.merchant_gateway_id} does not belong to ${payload.gateway}`
+      };
+    }
+  }
+
+  const config = await resolveGatewayConfig(gatewayConfig, merchantGateway);
+
+  let verificationError = "Invalid webhook signature";
   try {
-    return await gateway.verifyWebhookSignature(verificationRequest, config);
+    if (await gateway.verifyWebhookSignature(verificationRequest, config)) {
+      return {
+        gateway_id: gatewayConfig.id,
+        event: await gateway.parseWebhookEvent(verificationRequest, config)
+      };
+    }
   } catch (error) {
-    console.error(`Webhook verification failed for ${payload.gateway}:`, error);
-    return false;
+    verificationError = `Webhook verification failed: ${error.message}`;
   }
+
+  if (!allowUnverified) {
+    return { gateway_id: gatewayConfig.id, rejected: verificationError };
+  }
+
+  return acceptUnverified(
+    gatewayConfig.id,
+    verificationError,
+    await gateway.parseWebhookEvent(verificationRequest, config)
+  );
+}
+
+function acceptUnverified(gatewayId: string, reason: string, event?: WebhookEvent): VerifiedWebhook {
+  console.warn(`Accepting unverified webhook (allow_unverified_webhooks): ${reason}`);
+  return {
+    gateway_id: gatewayId,
+    event,
+    unverified_reason: `Accepted without verification: ${reason}`
+  };
 }
 
 async function getGatewayConfig(hasura: HasuraResource, gatewayCode: string) {
   const query = `
     query GetGatewayConfig($gateway_code: String!) {
       payment_gateways(where: {gateway_code: {_eq: $gateway_code}}) {
+        id
         gateway_code
         provider
         credentials
-        webhook_secret: features(path: "webhook_secret")
+        features
       }
     }
   `;
@@ -159,191 +238,437 @@ async function getGatewayConfig(hasura: HasuraResource, gatewayCode: string) {
   return response.data.payment_gateways[0] || null;
 }
 
-async function handlePaymentSuccess(
-  payload: WebhookPayload,
-  hasura: HasuraResource
-): Promise<any> {
-  const gatewayTransactionId = extractGatewayTransactionId(payload);
-  
+async function getMerchantGateway(hasura: HasuraResource, merchantGatewayId: string) {
   const query = `
-    query GetTransactionByGatewayId($gateway_transaction_id: String!) {
-      transactions(where: {gateway_transaction_id: {_eq: $gateway_transaction_id}}) {
-        id
-        status
-        merchant_id
+    query GetMerchantGateway($id: uuid!) {
+      merchant_gateways_by_pk(id: $id) {
+        gateway_id
+        credentials
+        features
       }
     }
   `;
+
+  const response = await makeHasuraRequest(hasura, query, { id: merchantGatewayId });
+  return response.data.merchant_gateways_by_pk || null;
+}
+
+async function handlePaymentSuccess(
+  event: WebhookEvent,
+  hasura: HasuraResource
+): Promise<any> {
+  const gatewayTransactionIds = getGatewayTransactionIds(event);
+  const transaction = await findTransactionByGatewayIds(hasura, gatewayTransactionIds);
   
-  const response = await makeHasuraRequest(hasura, query, {
-    gateway_transaction_id: gatewayTransactionId
-  });
-  
-  if (response.data.transactions.length === 0) {
-    console.warn(`Transaction not found for gateway ID: ${gatewayTransactionId}`);
+  if (!transaction) {
+    console.warn(`Transaction not found for gateway IDs: ${gatewayTransactionIds.join(", ")}`);
     return null;
   }
-
-  const transaction = response.data.transactions[0];
   
-  // Only update if current status is processing
-  if (transaction.status !== "processing") {
+  // Redelivered events are not status changes; other illegal moves are rejected by the state machine
+  if (transaction.status === "success") {
     console.log(`Transaction ${transaction.id} already in status: ${transaction.status}`);
     return null;
   }
 
   return {
     transaction_id: transaction.id,
+    from_status: transaction.status,
     status: "success",
-    gateway_response: payload.data,
+    gateway_transaction_id: gatewayTransactionIds[0],
+    gateway_response: event.data,
     notify_merchant: true
   };
 }
 
+async function handlePaymentApproved(
+  event: WebhookEvent,
+  hasura: HasuraResource
+): Promise<void> {
+  // Buyers who never come back through the return URL still get their order captured
+  const gatewayTransactionIds = getGatewayTransactionIds(event);
+  const transaction = await findTransactionByGatewayIds(hasura, gatewayTransactionIds);
+
+  if (!transaction) {
+    console.warn(`Transaction not found for gateway IDs: ${gatewayTransactionIds.join(", ")}`);
+    return;
+  }
+
+  const result = await confirmTransaction(hasura, transaction.id, {});
+
+  if (!result.success) {
+    throw new Error(result.error || "Payment confirmation failed");
+  }
+
+  if (result.status !== "processing" && transaction.status !== result.status) {
+    await notifyMerchant(hasura, transaction.id, `payment.${result.status}`);
+  }
+}
+
 async function handlePaymentFailure(
-  payload: WebhookPayload,
+  event: WebhookEvent,
   hasura: HasuraResource
 ): Promise<any> {
-  const gatewayTransactionId = extractGatewayTransactionId(payload);
-  
-  const query = `
-    query GetTransactionByGatewayId($gateway_transaction_id: String!) {
-      transactions(where: {gateway_transaction_id: {_eq: $gateway_transaction_id}}) {
-        id
-        status
-        merchant_id
-      }
-    }
-  `;
+  const gatewayTransactionIds = getGatewayTransactionIds(event);
+  const transaction = await findTransactionByGatewayIds(hasura, gatewayTransactionIds);
   
-  const response = await makeHasuraRequest(hasura, query, {
-    gateway_transaction_id: gatewayTransactionId
-  });
-  
-  if (response.data.transactions.length === 0) {
+  if (!transaction || transaction.status === "failed") {
     return null;
   }
-
-  const transaction = response.data.transactions[0];
   
   return {
     transaction_id: transaction.id,
+    from_status: transaction.status,
     status: "failed",
-    gateway_response: payload.data,
+    gateway_transaction_id: gatewayTransactionIds[0],
+    gateway_response: event.data,
     notify_merchant: true
   };
 }
 
-async function handleRefundProcessed(
-  payload: WebhookPayload,
-  hasura: HasuraResource
+// Razorpay and PayPal transactions hold the order id until the checkout is confirmed
+function getGatewayTransactionIds(event: WebhookEvent): string[] {
+  return [event.gateway_transaction_id, event.gateway_order_id].filter(Boolean);
+}
+
+async function findTransactionByGatewayIds(
+  hasura: HasuraResource,
+  gatewayTransactionIds: string[]
 ): Promise<any> {
-  const gatewayTransactionId = extractGatewayTransactionId(payload);
-  const refundAmount = extractRefundAmount(payload);
-  
   const query = `
-    query GetTransactionByGatewayId($gateway_transaction_id: String!) {
-      transactions(where: {gateway_transaction_id: {_eq: $gateway_transaction_id}}) {
+    query GetTransactionByGatewayIds($gateway_transaction_ids: [String!]!) {
+      transactions(where: {gateway_transaction_id: {_in: $gateway_transaction_ids}}) {
         id
         amount
+        captured_amount
+        currency
+        status
+        gateway_id
         merchant_id
       }
     }
   `;
   
   const response = await makeHasuraRequest(hasura, query, {
-    gateway_transaction_id: gatewayTransactionId
+    gateway_transaction_ids: gatewayTransactionIds
   });
   
-  if (response.data.transactions.length === 0) {
+  return response.data.transactions[0] || null;
+}
+
+async function handleRefundProcessed(
+  event: WebhookEvent,
+  gatewayId: string,
+  hasura: HasuraResource
+): Promise<any> {
+  if (!event.refund) {
+    console.warn(`Refund event ${event.gateway_event_type} has no refund details`);
     return null;
   }
 
-  const transaction = response.data.transactions[0];
+  const transaction = await findTransactionByGatewayIds(hasura, getGatewayTransactionIds(event));
   
-  // Check if partial or full refund
-  const status = refundAmount >= transaction.amount ? "refunded" : "success";
+  if (!transaction) {
+    return null;
+  }
+
+  // Reconcile into the refund ledger; the refund workflow may have recorded it already
+  await upsertRefund(hasura, {
+    transaction_id: transaction.id,
+    gateway_id: transaction.gateway_id || gatewayId,
+    gateway_refund_id: event.refund.gateway_refund_id,
+    amount: event.refund.amount,
+    currency: transaction.currency,
+    status: event.refund.status,
+    gateway_response: event.data
+  });
+
+  // Partial refunds leave the payment status untouched
+  const refundedAmount = await getRefundedAmount(hasura, transaction.id);
+  const paidAmount = Number(transaction.captured_amount ?? transaction.amount);
+  const status = refundedAmount >= paidAmount ? "refunded" : transaction.status;
   
   return {
     transaction_id: transaction.id,
+    from_status: transaction.status,
     status,
-    gateway_response: payload.data,
-    metadata: { refund_amount: refundAmount },
+    gateway_response: event.data,
     notify_merchant: true
   };
 }
 
-async function handleDisputeCreated(
-  payload: WebhookPayload,
+async function upsertRefund(hasura: HasuraResource, refund: any): Promise<void> {
+  const mutation = `
+    mutation UpsertRefund($object: refunds_insert_input!) {
+      insert_refunds_one(
+        object: $object,
+        on_conflict: {
+          constraint: refunds_gateway_id_gateway_refund_id_key,
+          update_columns: [status, amount, gateway_response]
+        }
+      ) {
+        id
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, { object: refund });
+}
+
+async function getRefundedAmount(hasura: HasuraResource, transactionId: string): Promise<number> {
+  const query = `
+    query GetRefundedAmount($id: uuid!) {
+      transactions_by_pk(id: $id) {
+        refunded_amount
+      }
+    }
+  `;
+
+  const response = await makeHasuraRequest(hasura, query, { id: transactionId });
+  return Number(response.data.transactions_by_pk?.refunded_amount) || 0;
+}
+
+/**
+ * Record a dispute and follow its lifecycle. A decided dispute (won or lost) is never
+ * reopened by a late or out-of-order event. The merchant hears about new disputes
+ * and every status change.
+ */
+async function handleDispute(
+  event: WebhookEvent,
+  gatewayCode: string,
+  gatewayId: string,
   hasura: HasuraResource
 ): Promise<void> {
-  // Create audit log entry for dispute
+  const dispute = event.dispute;
+
+  if (!dispute) {
+    console.warn(`Dispute event ${event.gateway_event_type} has no dispute details`);
+    return;
+  }
+
+  const transaction = await findTransactionByGatewayIds(hasura, getGatewayTransactionIds(event));
+
+  if (!transaction) {
+    console.warn(`Transaction not found for dispute ${dispute.gateway_dispute_id}`);
+    return;
+  }
+
+  const disputeGatewayId = transaction.gateway_id || gatewayId;
+  const existing = await getDispute(hasura, disputeGatewayId, dispute.gateway_dispute_id);
+  const decided = dispute.status === "won" || dispute.status === "lost";
+
   const mutation = `
-    mutation CreateAuditLog($object: audit_logs_insert_input!) {
-      insert_audit_logs_one(object: $object) {
+    mutation UpsertDispute($object: disputes_insert_input!) {
+      insert_disputes_one(
+        object: $object,
+        on_conflict: {
+          constraint: disputes_gateway_id_gateway_dispute_id_key,
+          update_columns: [status, gateway_status, amount, reason, evidence_due_by, closed_at, gateway_response],
+          where: {status: {_nin: ["won", "lost"]}}
+        }
+      ) {
         id
+        status
       }
     }
   `;
 
-  await makeHasuraRequest(hasura, mutation, {
+  const response = await makeHasuraRequest(hasura, mutation, {
     object: {
-      entity_type: "transaction",
-      entity_id: extractTransactionId(payload),
-      action: "dispute_created",
-      changes: payload.data
+      transaction_id: transaction.id,
+      gateway_id: disputeGatewayId,
+      gateway_dispute_id: dispute.gateway_dispute_id,
+      amount: dispute.amount ?? transaction.amount,
+      currency: transaction.currency,
+      reason: dispute.reason,
+      status: dispute.status,
+      gateway_status: dispute.gateway_status,
+      evidence_due_by: dispute.evidence_due_by,
+      closed_at: decided ? new Date().toISOString() : null,
+      gateway_response: event.data
     }
   });
-}
 
-function extractGatewayTransactionId(payload: WebhookPayload): string {
-  switch (payload.gateway) {
-    case "stripe":
-      return payload.data.object?.id || payload.data.id;
-    case "razorpay":
-      return payload.data.payload?.payment?.entity?.id || payload.data.entity?.id;
-    case "paypal":
-      return payload.data.resource?.id || payload.data.id;
-    default:
-      return payload.data.transaction_id || payload.data.id;
+  // Nothing is returned when the dispute was already decided
+  const recorded = response.data?.insert_disputes_one;
+
+  if (!recorded || existing?.status === recorded.status) {
+    return;
   }
+
+  await recordDisputeStatusChange(hasura, recorded.id, existing?.status, recorded.status, gatewayCode, event);
+
+  await notifyMerchant(
+    hasura,
+    transaction.id,
+    existing ? `dispute.${recorded.status}` : WebhookEventTypes.DISPUTE_CREATED,
+    {
+      dispute: {
+        id: recorded.id,
+        status: recorded.status,
+        amount: dispute.amount ?? transaction.amount,
+        currency: transaction.currency,
+        reason: dispute.reason,
+        evidence_due_by: dispute.evidence_due_by
+      }
+    }
+  );
 }
 
-function extractRefundAmount(payload: WebhookPayload): number {
-  switch (payload.gateway) {
-    case "stripe":
-      return payload.data.object?.amount_refunded / 100; // Convert from cents
-    case "razorpay":
-      return payload.data.payload?.refund?.entity?.amount / 100; // Convert from paise
-    case "paypal":
-      return parseFloat(payload.data.resource?.amount?.value || 0);
-    default:
-      return payload.data.refund_amount || 0;
-  }
+async function getDispute(
+  hasura: HasuraResource,
+  gatewayId: string,
+  gatewayDisputeId: string
+): Promise<{ id: string; status: string } | null> {
+  const query = `
+    query GetDispute($gateway_id: uuid!, $gateway_dispute_id: String!) {
+      disputes(
+        where: {
+          gateway_id: {_eq: $gateway_id},
+          gateway_dispute_id: {_eq: $gateway_dispute_id}
+        }
+      ) {
+        id
+        status
+      }
+    }
+  `;
+
+  const response = await makeHasuraRequest(hasura, query, {
+    gateway_id: gatewayId,
+    gateway_dispute_id: gatewayDisputeId
+  });
+
+  return response.data.disputes[0] || null;
 }
 
-function extractTransactionId(payload: WebhookPayload): string {
-  // Extract transaction ID from metadata or payment reference
-  return payload.data.metadata?.transaction_id || 
-         payload.data.reference ||
-         payload.data.order_id ||
-         "";
+async function recordDisputeStatusChange(
+  hasura: HasuraResource,
+  disputeId: string,
+  from: string | undefined,
+  to: string,
+  gatewayCode: string,
+  event: WebhookEvent
+): Promise<void> {
+  const mutation = `
+    mutation CreateAuditLog($object: audit_logs_insert_input!) {
+      insert_audit_logs_one(object: $object) {
+        id
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, {
+    object: {
+      entity_type: "dispute",
+      entity_id: disputeId,
+      action: from ? "dispute_status_changed" : "dispute_created",
+      performed_by: `webhook:${gatewayCode}`,
+      changes: { from, to, gateway_event_type: event.gateway_event_type }
+    }
+  });
 }
 
+// How long a delivery may hold a webhook before a redelivery can take it over
+const WEBHOOK_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Log a webhook and return its id, or null when another delivery owns the gateway event.
+ * A redelivery only takes over an unprocessed row whose claim has lapsed, so concurrent
+ * deliveries never both apply the event, while one that failed part-way is still retried.
+ */
 async function logWebhook(
   hasura: HasuraResource,
   webhook: any
-): Promise<string> {
+): Promise<string | null> {
   const mutation = `
     mutation LogWebhook($object: webhooks_insert_input!) {
+      insert_webhooks_one(
+        object: $object,
+        on_conflict: {
+          constraint: webhooks_gateway_id_external_event_id_key,
+          update_columns: []
+        }
+      ) {
+        id
+      }
+    }
+  `;
+
+  const response = await makeHasuraRequest(hasura, mutation, {
+    object: { ...webhook, processing_started_at: "now()" }
+  });
+
+  if (response.data.insert_webhooks_one) {
+    return response.data.insert_webhooks_one.id;
+  }
+
+  // Only the delivery whose update matches the row owns it
+  const claim = `
+    mutation ClaimWebhook(
+      $gateway_id: uuid!,
+      $external_event_id: String!,
+      $lease_expired_before: timestamptz!
+    ) {
+      update_webhooks(
+        where: {
+          gateway_id: {_eq: $gateway_id},
+          external_event_id: {_eq: $external_event_id},
+          processed_at: {_is_null: true},
+          _or: [
+            {processing_started_at: {_is_null: true}},
+            {processing_started_at: {_lt: $lease_expired_before}}
+          ]
+        },
+        _set: {processing_started_at: "now()"}
+      ) {
+        returning {
+          id
+        }
+      }
+    }
+  `;
+
+  const claimed = await makeHasuraRequest(hasura, claim, {
+    gateway_id: webhook.gateway_id,
+    external_event_id: webhook.external_event_id,
+    lease_expired_before: new Date(Date.now() - WEBHOOK_LEASE_MS).toISOString()
+  });
+
+  return claimed.data.update_webhooks.returning[0]?.id ?? null;
+}
+
+async function logRejectedWebhook(
+  hasura: HasuraResource,
+  payload: WebhookPayload,
+  rejection: RejectedWebhook
+): Promise<void> {
+  console.warn(`Webhook rejected for ${payload.gateway}: ${rejection.rejected}`);
+
+  const mutation = `
+    mutation LogRejectedWebhook($object: webhooks_insert_input!) {
       insert_webhooks_one(object: $object) {
         id
       }
     }
   `;
 
-  const response = await makeHasuraRequest(hasura, mutation, { object: webhook });
-  return response.data.insert_webhooks_one.id;
+  // No event id, since nothing in an unverified body can be trusted; never processed
+  await makeHasuraRequest(hasura, mutation, {
+    object: {
+      source: "gateway",
+      gateway_id: rejection.gateway_id,
+      event_type: payload.event_type || "unknown",
+      payload: {
+        gateway: payload.gateway,
+        headers: payload.headers,
+        body: payload.body ?? payload.data
+      },
+      processed: false,
+      processed_at: new Date().toISOString(),
+      error_message: rejection.rejected
+    }
+  });
 }
 
 async function markWebhookProcessed(
@@ -370,42 +695,34 @@ async function markWebhookProcessed(
 
 async function updateTransaction(
   hasura: HasuraResource,
-  update: any
-): Promise<void> {
-  const mutation = `
-    mutation UpdateTransaction(
-      $id: uuid!,
-      $status: transaction_status!,
-      $gateway_response: jsonb,
-      $metadata: jsonb
-    ) {
-      update_transactions_by_pk(
-        pk_columns: {id: $id},
-        _set: {
-          status: $status,
-          gateway_response: $gateway_response
-        },
-        _append: {
-          metadata: $metadata
-        }
-      ) {
-        id
-      }
-    }
-  `;
+  update: any,
+  gatewayCode: string
+): Promise<boolean> {
+  const changes: any = {
+    gateway_response: update.gateway_response
+  };
 
-  await makeHasuraRequest(hasura, mutation, {
-    id: update.transaction_id,
-    status: update.status,
-    gateway_response: update.gateway_response,
-    metadata: update.metadata
-  });
+  // Payment events replace a checkout id (e.g. a Razorpay order) with the payment id
+  if (update.gateway_transaction_id) {
+    changes.gateway_transaction_id = update.gateway_transaction_id;
+  }
+
+  // Out-of-order or duplicate events cannot move a transaction backwards
+  return transitionTransaction(
+    hasura,
+    update.transaction_id,
+    update.from_status,
+    update.status,
+    { performed_by: `webhook:${gatewayCode}` },
+    changes
+  );
 }
 
 async function notifyMerchant(
   hasura: HasuraResource,
   transactionId: string,
-  eventType: string
+  eventType: string,
+  details: Record<string, any> = {}
 ): Promise<void> {
   const query = `
     query GetTransactionForNotification($transaction_id: uuid!) {
@@ -415,8 +732,8 @@ async function notifyMerchant(
         currency
         status
         merchant {
+          id
           webhook_url
-          api_key
         }
       }
     }
@@ -432,36 +749,28 @@ async function notifyMerchant(
     return;
   }
   
-  // Send webhook to merchant
-  // In production, this would be queued for retry logic
+  // Failed deliveries stay queued and are retried by deliver-merchant-webhooks.ts
   try {
-    await fetch(transaction.merchant.webhook_url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Signature": generateMerchantWebhookSignature(transaction, eventType)
-      },
-      body: JSON.stringify({
-        event: eventType,
+    await enqueueMerchantWebhook(
+      hasura,
+      transaction.merchant.id,
+      eventType,
+      {
         transaction: {
           ref: transaction.transaction_ref,
           amount: transaction.amount,
           currency: transaction.currency,
           status: transaction.status
         },
-        timestamp: new Date().toISOString()
-      })
-    });
+        ...details
+      },
+      transactionId
+    );
   } catch (error) {
-    console.error("Failed to notify merchant:", error);
+    console.error("Failed to queue merchant webhook:", error);
   }
 }
 
-function generateMerchantWebhookSignature(transaction: any, eventType: string): string {
-  // Implement HMAC signature generation
-  return "signature_placeholder";
-}
-
 async function makeHasuraRequest(
   hasura: HasuraResource,
   query: string,
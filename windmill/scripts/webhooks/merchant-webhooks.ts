@@ -0,0 +1,321 @@
+// Merchant Webhook Delivery
+import crypto from 'crypto';
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  event_type: string;
+  payload: any;
+  status: "pending" | "delivered" | "dead_letter";
+  attempt_count: number;
+  merchant: {
+    webhook_url?: string;
+    webhook_secret: string;
+  };
+};
+
+export type DeliveryOutcome = "delivered" | "retrying" | "dead_letter" | "skipped";
+
+// Attempts before a delivery is dead-lettered; replayMerchantWebhook starts it over
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+export const SIGNATURE_HEADER = "X-NaviPe-Signature";
+
+/**
+ * Sign a webhook body as "t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">".
+ * Merchants recompute the HMAC with their webhook_secret and reject stale timestamps
+ * to stop replays.
+ */
+export function signMerchantWebhook(secret: string, body: string, timestamp: number): string {
+  const signature = crypto.createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Queue an event for a merchant and make the first delivery attempt right away.
+ * Failed attempts are retried by deliver-merchant-webhooks.ts.
+ */
+export async function enqueueMerchantWebhook(
+  hasura: HasuraResource,
+  merchantId: string,
+  eventType: string,
+  data: Record<string, any>,
+  transactionId?: string
+): Promise<DeliveryOutcome> {
+  // The delivery id doubles as the event id merchants deduplicate on
+  const id = crypto.randomUUID();
+
+  const mutation = `
+    mutation EnqueueMerchantWebhook($object: merchant_webhook_deliveries_insert_input!) {
+      insert_merchant_webhook_deliveries_one(object: $object) {
+        id
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, {
+    object: {
+      id,
+      merchant_id: merchantId,
+      transaction_id: transactionId,
+      event_type: eventType,
+      payload: {
+        id,
+        event: eventType,
+        ...data,
+        timestamp: new Date().toISOString()
+      }
+    }
+  });
+
+  return deliverMerchantWebhook(hasura, id);
+}
+
+/**
+ * Make one delivery attempt. The attempt is claimed by scheduling the next retry before
+ * sending, so an overlapping retry run cannot send the same attempt twice.
+ */
+export async function deliverMerchantWebhook(
+  hasura: HasuraResource,
+  deliveryId: string
+): Promise<DeliveryOutcome> {
+  const delivery = await getDelivery(hasura, deliveryId);
+
+  if (!delivery || delivery.status !== "pending") {
+    return "skipped";
+  }
+
+  const attempt = delivery.attempt_count + 1;
+  const claimed = await claimAttempt(hasura, delivery, attempt);
+
+  if (!claimed) {
+    return "skipped";
+  }
+
+  const result = await sendWebhook(delivery);
+
+  if (result.ok) {
+    await updateDelivery(hasura, delivery.id, {
+      status: "delivered",
+      delivered_at: new Date().toISOString(),
+      last_response_status: result.status,
+      last_error: null
+    });
+    return "delivered";
+  }
+
+  const deadLetter = attempt >= MAX_DELIVERY_ATTEMPTS;
+
+  await updateDelivery(hasura, delivery.id, {
+    status: deadLetter ? "dead_letter" : "pending",
+    last_response_status: result.status,
+    last_error: result.error
+  });
+
+  return deadLetter ? "dead_letter" : "retrying";
+}
+
+/**
+ * Put a delivered or dead-lettered webhook back on the queue with a fresh set of
+ * attempts and send it now. The payload, including its id, is sent unchanged.
+ */
+export async function replayMerchantWebhook(
+  hasura: HasuraResource,
+  deliveryId: string,
+  performedBy: string
+): Promise<DeliveryOutcome> {
+  const mutation = `
+    mutation RequeueMerchantWebhook($id: uuid!) {
+      update_merchant_webhook_deliveries(
+        where: {id: {_eq: $id}, status: {_in: ["delivered", "dead_letter"]}},
+        _set: {status: "pending", attempt_count: 0, next_attempt_at: "now()"}
+      ) {
+        affected_rows
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, mutation, { id: deliveryId });
+
+  if (data.update_merchant_webhook_deliveries.affected_rows === 0) {
+    throw new Error("Webhook delivery not found or still being retried");
+  }
+
+  await recordReplay(hasura, deliveryId, performedBy);
+
+  return deliverMerchantWebhook(hasura, deliveryId);
+}
+
+export function getRetryDelay(attempt: number): number {
+  // Exponential backoff with jitter: roughly 1, 2, 4 ... minutes, capped at 6 hours
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+async function sendWebhook(
+  delivery: WebhookDelivery
+): Promise<{ ok: boolean; status?: number; error?: string }> {
+  if (!delivery.merchant.webhook_url) {
+    return { ok: false, error: "Merchant has no webhook URL" };
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(delivery.merchant.webhook_url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-NaviPe-Event": delivery.event_type,
+        "X-NaviPe-Delivery": delivery.id,
+        [SIGNATURE_HEADER]: signMerchantWebhook(delivery.merchant.webhook_secret, body, timestamp)
+      },
+      body,
+      signal: controller.signal
+    });
+
+    return response.ok
+      ? { ok: true, status: response.status }
+      : { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error.name === "AbortError"
+        ? `Timed out after ${DELIVERY_TIMEOUT_MS}ms`
+        : error.message
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function getDelivery(hasura: HasuraResource, deliveryId: string): Promise<WebhookDelivery | null> {
+  const query = `
+    query GetMerchantWebhookDelivery($id: uuid!) {
+      merchant_webhook_deliveries_by_pk(id: $id) {
+        id
+        event_type
+        payload
+        status
+        attempt_count
+        merchant {
+          webhook_url
+          webhook_secret
+        }
+      }
+    }
+  `;
+
+  const { data } = await makeHasuraRequest(hasura, query, { id: deliveryId });
+  return data.merchant_webhook_deliveries_by_pk;
+}
+
+async function claimAttempt(
+  hasura: HasuraResource,
+  delivery: WebhookDelivery,
+  attempt: number
+): Promise<boolean> {
+  const mutation = `
+    mutation ClaimWebhookAttempt($id: uuid!, $attempt_count: Int!, $changes: merchant_webhook_deliveries_set_input!) {
+      update_merchant_webhook_deliveries(
+        where: {id: {_eq: $id}, status: {_eq: "pending"}, attempt_count: {_eq: $attempt_count}},
+        _set: $changes
+      ) {
+        affected_rows
+      }
+    }
+  `;
+
+  const now = Date.now();
+  const { data } = await makeHasuraRequest(hasura, mutation, {
+    id: delivery.id,
+    attempt_count: delivery.attempt_count,
+    changes: {
+      attempt_count: attempt,
+      last_attempt_at: new Date(now).toISOString(),
+      next_attempt_at: new Date(now + getRetryDelay(attempt)).toISOString()
+    }
+  });
+
+  return data.update_merchant_webhook_deliveries.affected_rows > 0;
+}
+
+async function updateDelivery(
+  hasura: HasuraResource,
+  deliveryId: string,
+  changes: Record<string, any>
+): Promise<void> {
+  const mutation = `
+    mutation UpdateWebhookDelivery($id: uuid!, $changes: merchant_webhook_deliveries_set_input!) {
+      update_merchant_webhook_deliveries_by_pk(pk_columns: {id: $id}, _set: $changes) {
+        id
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, { id: deliveryId, changes });
+}
+
+async function recordReplay(
+  hasura: HasuraResource,
+  deliveryId: string,
+  performedBy: string
+): Promise<void> {
+  const mutation = `
+    mutation CreateAuditLog($object: audit_logs_insert_input!) {
+      insert_audit_logs_one(object: $object) {
+        id
+      }
+    }
+  `;
+
+  await makeHasuraRequest(hasura, mutation, {
+    object: {
+      entity_type: "merchant_webhook_delivery",
+      entity_id: deliveryId,
+      action: "webhook_replayed",
+      performed_by: performedBy
+    }
+  });
+}
+
+async function makeHasuraRequest(
+  hasura: HasuraResource,
+  query: string,
+  variables: any
+): Promise<any> {
+  const response = await fetch(hasura.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-hasura-admin-secret": hasura.admin_secret
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hasura request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+// Merchant Webhook Replay
+import { replayMerchantWebhook, DeliveryOutcome } from './merchant-webhooks.ts';
+
+type ReplayInput = {
+  deliveryId: string;
+  performedBy?: string; // Recorded in the audit log; defaults to "replay"
+};
+
+// Define resource types for Windmill
+type HasuraResource = {
+  endpoint: string;
+  admin_secret: string;
+};
+
+export async function main(
+  input: ReplayInput,
+  hasura: HasuraResource
+): Promise<{
+  success: boolean;
+  outcome?: DeliveryOutcome;
+  error?: string;
+}> {
+  try {
+    const outcome = await replayMerchantWebhook(
+      hasura,
+      input.deliveryId,
+      input.performedBy || "replay"
+    );
+
+    return {
+      success: true,
+      outcome
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
\ No newline at end of file